@@ -0,0 +1,67 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import {
+  BenchmarkResult,
+  computeStats,
+  formatBenchmarkReport,
+  percentDelta,
+} from './benchmark';
+
+suite('Benchmark', () => {
+  test('should compute the statistics of samples', () => {
+    const stats = computeStats([4, 1, 3, 2]);
+    assert.strictEqual(stats.mean, 2.5);
+    assert.strictEqual(stats.median, 2.5);
+    assert.strictEqual(stats.min, 1);
+    assert.strictEqual(stats.max, 4);
+    assert.ok(Math.abs(stats.stddev - Math.sqrt(5 / 3)) < 1e-9);
+
+    assert.deepStrictEqual(computeStats([7]), {
+      mean: 7,
+      median: 7,
+      stddev: 0,
+      min: 7,
+      max: 7,
+    });
+  });
+
+  test('should compare results in percent', () => {
+    assert.strictEqual(percentDelta(90, 100), -10);
+    assert.strictEqual(percentDelta(150, 100), 50);
+
+    const result: BenchmarkResult = {
+      file: '/project/main.mojo',
+      revision: 'abc',
+      profile: 'Default',
+      buildArgs: [],
+      runArgs: [],
+      runs: 2,
+      warmupRuns: 1,
+      wallTimeMs: computeStats([10, 10]),
+      maxRssKb: undefined,
+      time: 0,
+    };
+    const baseline = {
+      ...result,
+      revision: 'def',
+      wallTimeMs: computeStats([8, 8]),
+    };
+    assert.ok(
+      formatBenchmarkReport(result, baseline).includes(
+        '| Wall time mean | 10.00 ms (+25.0%) |',
+      ),
+    );
+  });
+});
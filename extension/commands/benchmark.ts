@@ -0,0 +1,376 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { execFile, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { quote } from 'shell-quote';
+import * as vscode from 'vscode';
+import { fileExists, readFile } from '../utils/files';
+import { Optional } from '../types';
+import { MojoRun } from './runTerminal';
+
+/**
+ * Summary statistics of a set of samples.
+ */
+export interface BenchmarkStats {
+  mean: number;
+  median: number;
+  stddev: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * The outcome of benchmarking a file.
+ */
+export interface BenchmarkResult {
+  /**
+   * The path of the benchmarked file.
+   */
+  file: string;
+  /**
+   * The git revision of the file, or undefined if it isn't in a repository.
+   */
+  revision: Optional<string>;
+  profile: string;
+  buildArgs: string[];
+  runArgs: string[];
+  runs: number;
+  warmupRuns: number;
+  /**
+   * The wall time of the runs, in milliseconds.
+   */
+  wallTimeMs: BenchmarkStats;
+  /**
+   * The maximum resident set size of the runs, in kilobytes, or undefined if
+   * it can't be measured on this platform.
+   */
+  maxRssKb: Optional<BenchmarkStats>;
+  /**
+   * When the benchmark ran, in milliseconds since the epoch.
+   */
+  time: number;
+}
+
+/**
+ * The measurements of a single run.
+ */
+export interface BenchmarkSample {
+  wallTimeMs: number;
+  maxRssKb: Optional<number>;
+}
+
+/**
+ * The prefix of the keys the results of each file are stored under in the
+ * workspace state.
+ */
+const RESULTS_KEY = 'benchmark.results.';
+
+/**
+ * The number of results kept for each file.
+ */
+const MAX_RESULTS = 20;
+
+/**
+ * The `time` program used to measure the maximum resident set size of runs.
+ */
+const TIME_PATH = '/usr/bin/time';
+
+/**
+ * Incremented for every measured run, so that concurrent runs report to
+ * distinct files.
+ */
+let reportCount = 0;
+
+/**
+ * Computes the statistics of the given samples, which must not be empty. The
+ * standard deviation is the one of the sample.
+ */
+export function computeStats(samples: number[]): BenchmarkStats {
+  const sorted = [...samples].sort((lhs, rhs) => lhs - rhs);
+  const mean = sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length;
+  const middle = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+  const variance =
+    sorted.length > 1
+      ? sorted.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) /
+        (sorted.length - 1)
+      : 0;
+  return {
+    mean,
+    median,
+    stddev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Returns the relative change from the baseline to the current value, in
+ * percent.
+ */
+export function percentDelta(current: number, baseline: number): number {
+  return baseline === 0 ? 0 : ((current - baseline) / baseline) * 100;
+}
+
+function formatDelta(current: number, baseline: Optional<number>): string {
+  if (baseline === undefined) {
+    return '';
+  }
+  const delta = percentDelta(current, baseline);
+  return ` (${delta >= 0 ? '+' : ''}${delta.toFixed(1)}%)`;
+}
+
+function formatStatsRows(
+  name: string,
+  unit: string,
+  stats: BenchmarkStats,
+  baseline: Optional<BenchmarkStats>,
+): string[] {
+  const keys: (keyof BenchmarkStats)[] = [
+    'mean',
+    'median',
+    'stddev',
+    'min',
+    'max',
+  ];
+  return keys.map(
+    (key) =>
+      `| ${name} ${key} | ${stats[key].toFixed(2)} ${unit}${formatDelta(stats[key], baseline?.[key])} |`,
+  );
+}
+
+/**
+ * Formats the given result as a Markdown report, compared to the given
+ * baseline if any.
+ */
+export function formatBenchmarkReport(
+  result: BenchmarkResult,
+  baseline?: BenchmarkResult,
+): string {
+  const lines = [
+    `# Benchmark of ${path.basename(result.file)}`,
+    '',
+    `- File: \`${result.file}\``,
+    `- Revision: ${result.revision ?? 'not in a git repository'}`,
+    `- Run profile: ${result.profile}`,
+    ...(result.buildArgs.length > 0
+      ? [`- Build arguments: \`${quote(result.buildArgs)}\``]
+      : []),
+    ...(result.runArgs.length > 0
+      ? [`- Run arguments: \`${quote(result.runArgs)}\``]
+      : []),
+    `- Runs: ${result.runs}, after ${result.warmupRuns} warm-up run(s)`,
+    ...(baseline
+      ? [
+          `- Compared to: ${baseline.revision ?? 'no revision'}, on ${new Date(baseline.time).toLocaleString()}`,
+        ]
+      : []),
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    ...formatStatsRows(
+      'Wall time',
+      'ms',
+      result.wallTimeMs,
+      baseline?.wallTimeMs,
+    ),
+    ...(result.maxRssKb
+      ? formatStatsRows('Max RSS', 'KB', result.maxRssKb, baseline?.maxRssKb)
+      : []),
+    '',
+  ];
+  if (!result.maxRssKb) {
+    lines.push(
+      `The maximum resident set size is only measured on Linux and macOS, with \`${TIME_PATH}\`.`,
+      '',
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Returns the current git revision of the repository containing the given
+ * file, suffixed with `-dirty` if it has uncommitted changes, or undefined if
+ * the file isn't in a git repository.
+ */
+export function getGitRevision(file: string): Promise<Optional<string>> {
+  return new Promise((resolve) => {
+    execFile(
+      'git',
+      ['describe', '--always', '--dirty', '--abbrev=12'],
+      { cwd: path.dirname(file), timeout: 10000 },
+      (error, stdout) => resolve(error ? undefined : stdout.trim()),
+    );
+  });
+}
+
+/**
+ * Parses the maximum resident set size, in kilobytes, reported by `time`.
+ */
+function parseMaxRss(report: string): Optional<number> {
+  // macOS reports `<bytes>  maximum resident set size`.
+  const macMatch = /(\d+)\s+maximum resident set size/.exec(report);
+  if (macMatch) {
+    return Number(macMatch[1]) / 1024;
+  }
+  // GNU time reports the kilobytes alone, as requested by `-f %M`.
+  const lastLine = report.trim().split('\n').pop();
+  const kilobytes = lastLine ? Number(lastLine) : NaN;
+  return Number.isNaN(kilobytes) ? undefined : kilobytes;
+}
+
+/**
+ * Runs the given process once, measuring its wall time and, where `time` is
+ * available, its maximum resident set size. Rejects if the process fails or
+ * the run is cancelled.
+ */
+export async function measureRun(
+  run: MojoRun,
+  token: vscode.CancellationToken,
+): Promise<BenchmarkSample> {
+  const platform = os.platform();
+  const measureRss =
+    (platform === 'linux' || platform === 'darwin') &&
+    (await fileExists(TIME_PATH));
+  const reportPath = path.join(
+    os.tmpdir(),
+    `mojo-benchmark-${process.pid}-${++reportCount}-rss.txt`,
+  );
+  // GNU time writes its report to a file, and the macOS one to stderr.
+  const [command, args] = measureRss
+    ? [
+        TIME_PATH,
+        platform === 'linux'
+          ? ['-f', '%M', '-o', reportPath, run.command, ...run.args]
+          : ['-l', run.command, ...run.args],
+      ]
+    : [run.command, run.args];
+
+  try {
+    const startTime = process.hrtime.bigint();
+    const output = await new Promise<string>((resolve, reject) => {
+      // The measured program is a child of `time`, so both run in their own
+      // process group, which is stopped as a whole.
+      const child = spawn(command, args, {
+        cwd: run.cwd,
+        env: { ...process.env, ...run.env },
+        detached: measureRss,
+      });
+      const kill = () => {
+        try {
+          if (measureRss && child.pid !== undefined) {
+            process.kill(-child.pid);
+            return;
+          }
+        } catch {
+          // The group already exited; the child is stopped directly below.
+        }
+        child.kill();
+      };
+      let stderr = '';
+      child.stdout.resume();
+      child.stderr.on('data', (data: Buffer) => (stderr += data.toString()));
+      // The process may exit or close its input before consuming all of it.
+      child.stdin.on('error', () => {});
+      if (run.stdin) {
+        const input = fs.createReadStream(run.stdin);
+        input.on('error', (error) => {
+          kill();
+          reject(new Error(`Unable to read the input file: ${error.message}`));
+        });
+        input.pipe(child.stdin);
+      } else {
+        child.stdin.end();
+      }
+
+      const cancellation = token.onCancellationRequested(kill);
+      child.on('error', (error) => {
+        cancellation.dispose();
+        reject(error);
+      });
+      child.on('close', (exitCode) => {
+        cancellation.dispose();
+        if (token.isCancellationRequested) {
+          reject(new vscode.CancellationError());
+        } else if (exitCode !== 0) {
+          reject(
+            new Error(`The program exited with code ${exitCode}:\n${stderr}`),
+          );
+        } else {
+          resolve(stderr);
+        }
+      });
+    });
+    const wallTimeMs = Number(process.hrtime.bigint() - startTime) / 1e6;
+
+    let maxRssKb: Optional<number>;
+    if (measureRss) {
+      maxRssKb = parseMaxRss(
+        platform === 'linux' ? ((await readFile(reportPath)) ?? '') : output,
+      );
+    }
+    return { wallTimeMs, maxRssKb };
+  } finally {
+    // GNU time only reports to a file, which is removed once read.
+    await fs.promises.rm(reportPath, { force: true });
+  }
+}
+
+/**
+ * The benchmark results of each file, per git revision, persisted in the
+ * workspace state.
+ */
+export class BenchmarkStore {
+  constructor(private workspaceState: vscode.Memento) {}
+
+  /**
+   * Returns the results of the given file, most recent first.
+   */
+  getResults(file: string): BenchmarkResult[] {
+    return this.workspaceState.get<BenchmarkResult[]>(RESULTS_KEY + file, []);
+  }
+
+  /**
+   * Stores the given result, replacing the previous result of the same
+   * revision.
+   */
+  async add(result: BenchmarkResult) {
+    const results = this.getResults(result.file).filter(
+      (other) =>
+        result.revision === undefined || other.revision !== result.revision,
+    );
+    await this.workspaceState.update(
+      RESULTS_KEY + result.file,
+      [result, ...results].slice(0, MAX_RESULTS),
+    );
+  }
+
+  /**
+   * Returns the result the given one is compared to by default: the most
+   * recent one of another revision, or the previous one if the file isn't in a
+   * git repository.
+   */
+  getBaseline(result: BenchmarkResult): Optional<BenchmarkResult> {
+    return this.getResults(result.file).find(
+      (other) =>
+        other.time !== result.time &&
+        (result.revision === undefined || other.revision !== result.revision),
+    );
+  }
+}
@@ -0,0 +1,245 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { execFile } from 'child_process';
+import * as vscode from 'vscode';
+import { Optional } from '../types';
+import { PythonEnvironmentManager, SDK, SDKFeature } from '../pyenv';
+import { SDKCapability } from '../sdk/version';
+import { directoryExists, fileExists, readFile } from '../utils/files';
+
+/**
+ * The outcome of a single check performed on an SDK.
+ */
+interface HealthCheck {
+  name: string;
+  passed: boolean;
+  details: string;
+  /**
+   * A suggestion to fix the problem, shown when the check failed.
+   */
+  fix: string;
+}
+
+const REINSTALL_FIX =
+  'Your Mojo installation appears to be incomplete. Reinstall the `modular` package in your environment (for example with `pixi reinstall modular` or `pip install --force-reinstall modular`).';
+
+/**
+ * Runs `<tool> --version` and resolves to the first line of its output, or
+ * rejects if the tool couldn't be executed.
+ */
+function getToolVersion(toolPath: string, sdk: SDK): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      toolPath,
+      ['--version'],
+      { env: sdk.getProcessEnv(/*withTelemetry=*/ false), timeout: 10000 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(stderr.trim() || error.message);
+          return;
+        }
+        resolve((stdout || stderr).trim().split('\n')[0]);
+      },
+    );
+  });
+}
+
+/**
+ * The check of a tool the SDK doesn't provide at all.
+ */
+function getMissingToolCheck(name: string): HealthCheck {
+  return {
+    name,
+    passed: false,
+    details: 'Not provided by this SDK.',
+    fix: `The features relying on this tool are disabled. ${REINSTALL_FIX}`,
+  };
+}
+
+/**
+ * Checks that the given executable exists and that it runs.
+ */
+async function checkExecutable(
+  name: string,
+  toolPath: Optional<string>,
+  sdk: SDK,
+): Promise<HealthCheck> {
+  if (!toolPath) {
+    return getMissingToolCheck(name);
+  }
+
+  if (!(await fileExists(toolPath))) {
+    return {
+      name,
+      passed: false,
+      details: `\`${toolPath}\` does not exist.`,
+      fix: REINSTALL_FIX,
+    };
+  }
+
+  try {
+    const version = await getToolVersion(toolPath, sdk);
+    return {
+      name,
+      passed: true,
+      details: `\`${toolPath}\`: ${version}`,
+      fix: '',
+    };
+  } catch (e) {
+    return {
+      name,
+      passed: false,
+      details: `\`${toolPath} --version\` failed: ${e}`,
+      fix: `Try running \`${toolPath} --version\` in a terminal to see the full error. ${REINSTALL_FIX}`,
+    };
+  }
+}
+
+/**
+ * Checks that the given file or directory exists.
+ */
+async function checkPath(
+  name: string,
+  fsPath: Optional<string>,
+  isDirectory: boolean,
+): Promise<HealthCheck> {
+  if (!fsPath) {
+    return getMissingToolCheck(name);
+  }
+
+  const exists = isDirectory
+    ? await directoryExists(fsPath)
+    : await fileExists(fsPath);
+  return {
+    name,
+    passed: exists,
+    details: exists ? `\`${fsPath}\`` : `\`${fsPath}\` does not exist.`,
+    fix: REINSTALL_FIX,
+  };
+}
+
+async function runHealthChecks(sdk: SDK): Promise<HealthCheck[]> {
+  const checks = await Promise.all([
+    checkExecutable('Mojo driver (`mojoPath`)', sdk.mojoPath, sdk),
+    checkExecutable('Language server (`lspPath`)', sdk.lspPath, sdk),
+    checkExecutable('Formatter (`mblackPath`)', sdk.mblackPath, sdk),
+    checkExecutable('Debug adapter (`dapPath`)', sdk.dapPath, sdk),
+    checkExecutable('LLDB (`lldbPath`)', sdk.lldbPath, sdk),
+    checkPath('LLDB plugin (`lldbPluginPath`)', sdk.lldbPluginPath, false),
+    checkPath(
+      'Debugger visualizers (`visualizersPath`)',
+      sdk.visualizersPath,
+      true,
+    ),
+  ]);
+
+  const hasPythonScripting = await sdk.lldbHasPythonScriptingSupport();
+  checks.push({
+    name: 'LLDB Python scripting',
+    passed: hasPythonScripting,
+    details: hasPythonScripting
+      ? 'Supported.'
+      : 'Not supported. Debugger visualizers will not be loaded.',
+    fix: 'LLDB needs to find a compatible Python library at startup. Make sure the Python environment containing the SDK is complete, and check the `Mojo` output channel for the error reported by LLDB.',
+  });
+  return checks;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Generates a Markdown report describing the health of the SDK used by the
+ * given workspace folder.
+ */
+export async function generateSDKHealthReport(
+  envManager: PythonEnvironmentManager,
+  workspaceFolder: Optional<vscode.WorkspaceFolder>,
+): Promise<string> {
+  const lines = ['# Mojo SDK health report', ''];
+  if (workspaceFolder) {
+    lines.push(`- **Workspace folder:** ${workspaceFolder.name}`);
+  }
+  lines.push(
+    `- **Selected SDK:** ${envManager.getSelectedSDKId(workspaceFolder) ?? 'automatic'}`,
+  );
+
+  const sdk = await envManager.getActiveSDK(workspaceFolder);
+  if (!sdk) {
+    lines.push(
+      '',
+      '❌ No Mojo SDK could be loaded.',
+      '',
+      '## Suggested fixes',
+      '',
+      '- Run `Python: Select Interpreter` and pick the environment where Mojo is installed.',
+      '- Run `Mojo: Select SDK` to choose an SDK explicitly.',
+      '- Check the `Mojo` output channel for the reason the SDK failed to load.',
+    );
+    return lines.join('\n') + '\n';
+  }
+
+  lines.push(
+    `- **Kind:** ${sdk.kind}`,
+    `- **Version:** ${sdk.parsedVersion} (\`${sdk.version.trim()}\`)`,
+    '',
+    '## Checks',
+    '',
+    '| Check | Status | Details |',
+    '| --- | --- | --- |',
+  );
+
+  const checks = await runHealthChecks(sdk);
+  for (const check of checks) {
+    lines.push(
+      `| ${check.name} | ${check.passed ? '✅' : '❌'} | ${escapeTableCell(check.details)} |`,
+    );
+  }
+
+  const failedChecks = checks.filter((check) => !check.passed);
+  if (failedChecks.length > 0) {
+    lines.push('', '## Suggested fixes', '');
+    for (const check of failedChecks) {
+      lines.push(`- **${check.name}:** ${check.fix}`);
+    }
+  }
+
+  lines.push('', '## Features', '');
+  for (const feature of Object.values(SDKFeature)) {
+    const missingTools = await sdk.getMissingTools(feature);
+    lines.push(
+      missingTools.length === 0
+        ? `- ✅ ${feature}`
+        : `- ❌ ${feature} (missing ${missingTools.join(', ')})`,
+    );
+  }
+
+  lines.push('', '## Capabilities', '');
+  for (const capability of Object.values(SDKCapability)) {
+    lines.push(`- ${sdk.supports(capability) ? '✅' : '❌'} \`${capability}\``);
+  }
+
+  const modularCfgPath = sdk.modularCfgPath;
+  if (modularCfgPath) {
+    const contents = await readFile(modularCfgPath);
+    lines.push('', '## modular.cfg', '', `\`${modularCfgPath}\``, '');
+    lines.push(
+      contents === undefined
+        ? 'Unable to read the file.'
+        : ['```ini', contents.trimEnd(), '```'].join('\n'),
+    );
+  }
+  return lines.join('\n') + '\n';
+}
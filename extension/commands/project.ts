@@ -0,0 +1,319 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DisposableContext } from '../utils/disposableContext';
+import { directoryExists, writeFile } from '../utils/files';
+import { Logger } from '../logging';
+import { Optional } from '../types';
+import { PythonEnvironmentManager } from '../pyenv';
+import { getPixiEnvironmentId } from '../sdk/discovery';
+
+interface ChannelItem extends vscode.QuickPickItem {
+  url: string;
+}
+
+const CHANNELS: ChannelItem[] = [
+  {
+    label: 'Stable',
+    detail: 'The latest stable release of Mojo.',
+    url: 'https://conda.modular.com/max',
+  },
+  {
+    label: 'Nightly',
+    detail: 'The latest nightly build of Mojo, with the newest features.',
+    url: 'https://conda.modular.com/max-nightly',
+  },
+];
+
+/**
+ * The name of the Pixi environment created by `pixi install`.
+ */
+const PIXI_ENVIRONMENT = 'default';
+
+/**
+ * Returns the Pixi platform of the current machine.
+ */
+function getPixiPlatform(): string {
+  if (process.platform === 'darwin') {
+    return process.arch === 'arm64' ? 'osx-arm64' : 'osx-64';
+  }
+  return process.arch === 'arm64' ? 'linux-aarch64' : 'linux-64';
+}
+
+function getPixiManifest(name: string, channelUrl: string): string {
+  return `[workspace]
+authors = []
+channels = ["${channelUrl}", "conda-forge"]
+name = "${name}"
+platforms = ["${getPixiPlatform()}"]
+version = "0.1.0"
+
+[tasks]
+main = "mojo run main.mojo"
+test = "mojo test tests"
+
+[dependencies]
+modular = "*"
+`;
+}
+
+const MAIN_FILE = `def main():
+    print("Hello, Mojo!")
+`;
+
+const TEST_FILE = `from testing import assert_equal
+
+
+def test_addition():
+    assert_equal(1 + 1, 2)
+`;
+
+function getLaunchConfigurations(): string {
+  const launch = {
+    version: '0.2.0',
+    configurations: [
+      {
+        type: 'mojo-lldb',
+        request: 'launch',
+        name: 'Mojo: Debug main.mojo',
+        mojoFile: '${workspaceFolder}/main.mojo',
+        args: [],
+        env: [],
+        cwd: '${workspaceFolder}',
+        runInTerminal: false,
+      },
+      {
+        type: 'mojo-lldb',
+        request: 'launch',
+        name: 'Mojo: Debug current Mojo file',
+        mojoFile: '${file}',
+        args: [],
+        env: [],
+        cwd: '${workspaceFolder}',
+        runInTerminal: false,
+      },
+    ],
+  };
+  return JSON.stringify(launch, null, 2) + '\n';
+}
+
+function getWorkspaceSettings(): string {
+  // Makes the Python extension, when installed, pick the Pixi environment as
+  // well so that both extensions agree on the SDK.
+  const settings = {
+    'python.defaultInterpreterPath': `\${workspaceFolder}/.pixi/envs/${PIXI_ENVIRONMENT}/bin/python`,
+  };
+  return JSON.stringify(settings, null, 2) + '\n';
+}
+
+/**
+ * Asks the user for the location, name and channel of the new project.
+ * Resolves to undefined if the user cancelled.
+ */
+async function promptProjectOptions(): Promise<
+  Optional<{ projectPath: string; name: string; channel: ChannelItem }>
+> {
+  const parent = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: 'Create Project Here',
+    title: 'Select the folder in which to create the Mojo project',
+  });
+  if (!parent || parent.length === 0) {
+    return undefined;
+  }
+
+  const name = await vscode.window.showInputBox({
+    title: 'Name of the new Mojo project',
+    placeHolder: 'hello-mojo',
+    validateInput: async (value) => {
+      if (!/^[A-Za-z_][\w-]*$/.test(value)) {
+        return 'The name must start with a letter or an underscore, and only contain letters, digits, underscores and dashes.';
+      }
+      if (await directoryExists(path.join(parent[0].fsPath, value))) {
+        return `The folder '${value}' already exists.`;
+      }
+      return undefined;
+    },
+  });
+  if (!name) {
+    return undefined;
+  }
+
+  const channel = await vscode.window.showQuickPick(CHANNELS, {
+    title: 'Select the Mojo release channel',
+  });
+  if (!channel) {
+    return undefined;
+  }
+  return { projectPath: path.join(parent[0].fsPath, name), name, channel };
+}
+
+/**
+ * Runs `pixi install` in the given project, showing its progress. Resolves to
+ * whether it succeeded.
+ */
+async function installPixiEnvironment(
+  projectPath: string,
+  logger: Logger,
+): Promise<boolean> {
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Installing the Mojo SDK with Pixi...',
+      cancellable: true,
+    },
+    (_progress, token) =>
+      new Promise<boolean>((resolve) => {
+        const pixi = execFile(
+          'pixi',
+          ['install'],
+          { cwd: projectPath },
+          (error, stdout, stderr) => {
+            logger.info(`pixi install output:\n${stdout}${stderr}`);
+            if (error) {
+              logger.error('pixi install failed', error);
+              resolve(false);
+              return;
+            }
+            resolve(true);
+          },
+        );
+        token.onCancellationRequested(() => pixi.kill());
+      }),
+  );
+}
+
+/**
+ * Opens the new project, either in place of the current workspace or next to
+ * it, and selects its Pixi environment.
+ */
+async function openProject(
+  projectPath: string,
+  envManager: PythonEnvironmentManager,
+) {
+  const uri = vscode.Uri.file(projectPath);
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length === 0) {
+    await vscode.commands.executeCommand('vscode.openFolder', uri);
+    return;
+  }
+
+  const open = 'Open';
+  const openInNewWindow = 'Open in New Window';
+  const addToWorkspace = 'Add to Workspace';
+  const choice = await vscode.window.showInformationMessage(
+    `The Mojo project '${path.basename(projectPath)}' was created.`,
+    open,
+    openInNewWindow,
+    addToWorkspace,
+  );
+
+  switch (choice) {
+    case open:
+      await vscode.commands.executeCommand('vscode.openFolder', uri);
+      break;
+    case openInNewWindow:
+      await vscode.commands.executeCommand('vscode.openFolder', uri, {
+        forceNewWindow: true,
+      });
+      break;
+    case addToWorkspace: {
+      const added = new Promise<void>((resolve) => {
+        const listener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+          listener.dispose();
+          resolve();
+        });
+      });
+      vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri });
+      await added;
+
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+      if (workspaceFolder) {
+        await envManager.selectSDK(
+          getPixiEnvironmentId(PIXI_ENVIRONMENT),
+          workspaceFolder,
+        );
+      }
+      await vscode.window.showTextDocument(
+        vscode.Uri.joinPath(uri, 'main.mojo'),
+      );
+      break;
+    }
+  }
+}
+
+/**
+ * Activate the project related commands.
+ *
+ * @returns A disposable connected to the lifetime of the registered commands.
+ */
+export function activateProjectCommands(
+  envManager: PythonEnvironmentManager,
+  logger: Logger,
+): vscode.Disposable {
+  const disposables = new DisposableContext();
+  disposables.pushSubscription(
+    vscode.commands.registerCommand('mojo.project.new', async () => {
+      const options = await promptProjectOptions();
+      if (!options) {
+        return false;
+      }
+
+      const { projectPath, name, channel } = options;
+      logger.info(`Creating a new Mojo project in ${projectPath}.`);
+      const files: [string, string][] = [
+        ['pixi.toml', getPixiManifest(name, channel.url)],
+        ['main.mojo', MAIN_FILE],
+        [path.join('tests', 'test_main.mojo'), TEST_FILE],
+        [path.join('.vscode', 'launch.json'), getLaunchConfigurations()],
+        [path.join('.vscode', 'settings.json'), getWorkspaceSettings()],
+        ['.gitignore', '.pixi/\n'],
+      ];
+      for (const [file, contents] of files) {
+        if (!(await writeFile(path.join(projectPath, file), contents))) {
+          vscode.window.showErrorMessage(
+            `Unable to create '${file}' in ${projectPath}.`,
+          );
+          return false;
+        }
+      }
+
+      if (!(await installPixiEnvironment(projectPath, logger))) {
+        const viewLogs = 'View Logs';
+        const installPixi = 'Install Pixi';
+        vscode.window
+          .showErrorMessage(
+            "Unable to install the project's environment. Make sure Pixi is installed, then run `pixi install` in the project.",
+            viewLogs,
+            installPixi,
+          )
+          .then((choice) => {
+            if (choice === viewLogs) {
+              logger.main.outputChannel.show();
+            } else if (choice === installPixi) {
+              vscode.env.openExternal(vscode.Uri.parse('https://pixi.sh'));
+            }
+          });
+      }
+
+      await openProject(projectPath, envManager);
+      return true;
+    }),
+  );
+  return disposables;
+}
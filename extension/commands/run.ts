@@ -11,6 +11,7 @@
 // limitations under the License.
 //===----------------------------------------------------------------------===//
 
+import { execFile } from 'child_process';
 import { quote, parse } from 'shell-quote';
 import * as vscode from 'vscode';
 import { DisposableContext } from '../utils/disposableContext';
@@ -18,13 +19,67 @@ import * as path from 'path';
 import * as config from '../utils/config';
 import { MojoDebugConfiguration } from '../debug/debug';
 import md5 from 'md5';
+import * as os from 'os';
 import { Optional } from '../types';
 import { PythonEnvironmentManager, SDK } from '../pyenv';
+import { Logger } from '../logging';
+import { MojoLSPManager } from '../lsp/lsp';
+import {
+  fileExists,
+  hasMojoFiles,
+  moveUpUntil,
+  writeFile,
+} from '../utils/files';
+import { substituteVariables } from '../utils/vscodeVariables';
+import {
+  parseJSONDiagnostics,
+  toVSCodeDiagnostics,
+} from '../utils/diagnostics';
+import {
+  findRunProfile,
+  migrateLegacyFileArgs,
+  pickRunProfile,
+  resolveRunProfile,
+  ResolvedRunProfile,
+  saveRunProfile,
+} from './runProfiles';
+import { MojoRun, MojoRunTerminal } from './runTerminal';
+import { RunHistory, RunHistoryEntry, RunKind } from './runHistory';
+import { MojoRunWatcher } from './watch';
+import {
+  BenchmarkResult,
+  BenchmarkSample,
+  BenchmarkStore,
+  computeStats,
+  formatBenchmarkReport,
+  getGitRevision,
+  measureRun,
+} from './benchmark';
+import {
+  createFunctionSnippet,
+  createSelectionSnippet,
+  findFunctionAt,
+  getFunctionLensKind,
+  getFunctionSymbols,
+  getImports,
+  hasParameters,
+  MojoFunctionSymbol,
+  parseFunctions,
+} from './snippets';
 
-type FileArgs = {
-  runArgs: string[];
-  buildArgs: string[];
-};
+/**
+ * The file marking a folder as a Mojo package.
+ */
+const PACKAGE_INIT_FILE = '__init__.mojo';
+
+/**
+ * A terminal running a Mojo file, along with the pseudoterminal owning its
+ * process.
+ */
+interface RunTerminalEntry {
+  terminal: vscode.Terminal;
+  pty: MojoRunTerminal;
+}
 
 /**
  * This class provides a manager for executing and debugging mojo files.
@@ -32,51 +87,137 @@ type FileArgs = {
 class ExecutionManager extends DisposableContext {
   readonly envManager: PythonEnvironmentManager;
   private context: vscode.ExtensionContext;
+  private logger: Logger;
+  private lspManager: MojoLSPManager;
+  /**
+   * The diagnostics reported by the last build.
+   */
+  private buildDiagnostics: vscode.DiagnosticCollection;
+  /**
+   * The diagnostics reported by the last run of each file.
+   */
+  private runDiagnostics: vscode.DiagnosticCollection;
+  /**
+   * The terminal running each file, keyed by path.
+   */
+  private runTerminals = new Map<string, RunTerminalEntry>();
+  /**
+   * The recent runs and debug sessions of the workspace.
+   */
+  private history: RunHistory;
+  /**
+   * The files run again when their package is saved.
+   */
+  private watcher: MojoRunWatcher;
+  /**
+   * The benchmark results of the files of the workspace.
+   */
+  private benchmarks: BenchmarkStore;
 
   constructor(
     sdkManager: PythonEnvironmentManager,
     context: vscode.ExtensionContext,
+    logger: Logger,
+    lspManager: MojoLSPManager,
   ) {
     super();
 
     this.envManager = sdkManager;
     this.context = context;
+    this.logger = logger;
+    this.lspManager = lspManager;
+    this.buildDiagnostics =
+      vscode.languages.createDiagnosticCollection('mojo-build');
+    this.pushSubscription(this.buildDiagnostics);
+    this.runDiagnostics =
+      vscode.languages.createDiagnosticCollection('mojo-run');
+    this.pushSubscription(this.runDiagnostics);
+    this.history = new RunHistory(context.workspaceState);
+    this.pushSubscription(this.history);
+    this.watcher = new MojoRunWatcher(
+      (file, profile) =>
+        this.executeFileInTerminal(file, profile, /*record=*/ false),
+      logger,
+    );
+    this.pushSubscription(this.watcher);
+    this.benchmarks = new BenchmarkStore(context.workspaceState);
+    this.pushSubscription(
+      vscode.window.onDidCloseTerminal((terminal) => {
+        for (const [file, entry] of this.runTerminals) {
+          if (entry.terminal === terminal) {
+            this.runTerminals.delete(file);
+          }
+        }
+      }),
+    );
+    // Stop the running programs and close their terminals, e.g. when the
+    // extension restarts.
+    this.pushSubscription(
+      new vscode.Disposable(() => {
+        for (const { terminal, pty } of this.runTerminals.values()) {
+          void pty.stop();
+          terminal.dispose();
+        }
+        this.runTerminals.clear();
+      }),
+    );
     this.activateRunCommands();
-  }
-
-  private getFileArgsKey(path: string): string {
-    return `file.args.${path}`;
-  }
-
-  private getFileArgs(path: string): FileArgs {
-    return this.context.globalState.get<FileArgs>(this.getFileArgsKey(path), {
-      runArgs: [],
-      buildArgs: [],
-    });
-  }
-
-  private getBuildArgs(path: string): string[] {
-    return this.getFileArgs(path).buildArgs;
-  }
 
-  private async setBuildArgs(path: string, args: string): Promise<void> {
-    const fileArgs = this.getFileArgs(path);
-    fileArgs.buildArgs = parse(args).filter(
-      (x): x is string => typeof x === 'string',
+    this.updatePackageFolders();
+    const initFileWatcher = vscode.workspace.createFileSystemWatcher(
+      `**/${PACKAGE_INIT_FILE}`,
+      /*ignoreCreateEvents=*/ false,
+      /*ignoreChangeEvents=*/ true,
+    );
+    this.pushSubscription(initFileWatcher);
+    this.pushSubscription(
+      initFileWatcher.onDidCreate(() => this.updatePackageFolders()),
+    );
+    this.pushSubscription(
+      initFileWatcher.onDidDelete(() => this.updatePackageFolders()),
+    );
+    this.pushSubscription(
+      vscode.workspace.onDidChangeWorkspaceFolders(() =>
+        this.updatePackageFolders(),
+      ),
+    );
+    this.pushSubscription(
+      vscode.languages.registerCodeLensProvider('mojo', {
+        provideCodeLenses: (doc) => this.provideCodeLenses(doc),
+      }),
     );
-    return this.context.globalState.update(this.getFileArgsKey(path), fileArgs);
-  }
 
-  private getRunArgs(path: string): string[] {
-    return this.getFileArgs(path).runArgs;
+    // The arguments of each file used to be stored in the global state.
+    const migrate = () =>
+      migrateLegacyFileArgs(this.context.globalState, this.logger);
+    migrate();
+    this.pushSubscription(
+      vscode.workspace.onDidChangeWorkspaceFolders(migrate),
+    );
   }
 
-  private async setRunArgs(path: string, args: string): Promise<void> {
-    const fileArgs = this.getFileArgs(path);
-    fileArgs.runArgs = parse(args).filter(
-      (x): x is string => typeof x === 'string',
+  /**
+   * Chooses the run profile of the given document and resolves it, or resolves
+   * to undefined if the user cancelled.
+   *
+   * @param profileName The name of the profile to use, e.g. the one of a run
+   *     from the history. The user chooses one if it no longer applies.
+   */
+  private async getRunProfile(
+    doc: vscode.TextDocument,
+    title: string,
+    profileName?: string,
+  ): Promise<Optional<ResolvedRunProfile>> {
+    const profile =
+      (profileName !== undefined && findRunProfile(doc, profileName)) ||
+      (await pickRunProfile(doc, this.context.workspaceState, title));
+    if (!profile) {
+      return undefined;
+    }
+    this.logger.debug(
+      `Using the run profile '${profile.name}' for ${doc.fileName}`,
     );
-    return this.context.globalState.update(this.getFileArgsKey(path), fileArgs);
+    return resolveRunProfile(profile, doc);
   }
 
   /**
@@ -91,6 +232,109 @@ class ExecutionManager extends DisposableContext {
       }),
     );
 
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.file.stop', async () => {
+        const entry = this.getActiveRunTerminal();
+        if (!entry?.pty.isRunning) {
+          return false;
+        }
+        await entry.pty.stop();
+        return true;
+      }),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.file.rerun', async () => {
+        const entry = this.getActiveRunTerminal();
+        if (!entry) {
+          return false;
+        }
+        entry.terminal.show();
+        await entry.pty.rerun();
+        return true;
+      }),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.file.rerunLast', async () => {
+        const last = this.history.last;
+        if (!last) {
+          vscode.window.showInformationMessage(
+            'No Mojo file has been run yet.',
+          );
+          return false;
+        }
+        return this.executeHistoryEntry(last);
+      }),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.file.runHistory', async () => {
+        const entry = await this.history.pick();
+        return entry !== undefined && this.executeHistoryEntry(entry);
+      }),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand(
+        'mojo.file.toggleWatch',
+        async (file?: vscode.Uri) => {
+          const doc = await this.getDocumentToExecute(file);
+          if (!doc) {
+            return false;
+          }
+          if (this.watcher.isWatching(doc.fileName)) {
+            this.watcher.unwatch(doc.fileName);
+            return true;
+          }
+
+          const profile = await this.getRunProfile(doc, 'Watch Mojo File');
+          if (!profile) {
+            return false;
+          }
+          await this.watcher.watch(doc.fileName, profile.name);
+          return true;
+        },
+      ),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.file.stopWatching', () => {
+        this.watcher.unwatchAll();
+        return true;
+      }),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.file.runSelection', () =>
+        this.runSelection(),
+      ),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand(
+        'mojo.file.runFunction',
+        (file?: vscode.Uri, range?: vscode.Range) =>
+          this.runFunction(file, range),
+      ),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.file.build', (file?: vscode.Uri) =>
+        this.buildFile(file),
+      ),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand(
+        'mojo.file.benchmark',
+        (file?: vscode.Uri) => this.benchmarkFile(file),
+      ),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand(
+        'mojo.file.compareBenchmarks',
+        (file?: vscode.Uri) => this.compareBenchmarks(file),
+      ),
+    );
+    this.pushSubscription(
+      vscode.commands.registerCommand(
+        'mojo.package.build',
+        (folder?: vscode.Uri) => this.buildPackage(folder),
+      ),
+    );
+
     for (const cmd of ['mojo.file.debug', 'mojo.file.debug-in-terminal']) {
       this.pushSubscription(
         vscode.commands.registerCommand(cmd, (file: vscode.Uri) => {
@@ -105,80 +349,362 @@ class ExecutionManager extends DisposableContext {
     this.pushSubscription(
       vscode.commands.registerCommand(
         'mojo.file.set-args',
-        async (file: vscode.Uri) => {
+        async (file?: vscode.Uri) => {
+          const doc = await this.getDocumentToExecute(file);
+          if (!doc) {
+            return false;
+          }
+
+          const profile = await pickRunProfile(
+            doc,
+            this.context.workspaceState,
+            'Configure Build and Run Args',
+          );
+          if (!profile) {
+            return false;
+          }
+
           const setBuildArgs = 'Set Build Arguments';
           const setRunArgs = 'Set Run Arguments';
           const option = await vscode.window.showQuickPick(
             [setBuildArgs, setRunArgs],
             {
-              title: 'Select the arguments you want to configure',
+              title: `Select the arguments you want to configure in the '${profile.name}' run profile`,
               placeHolder:
                 'This will affect `Run Mojo File`, `Debug Mojo File` and similar actions.',
             },
           );
+          if (!option) {
+            return false;
+          }
 
-          if (option === setBuildArgs) {
-            const buildArgs = quote(this.getBuildArgs(file.fsPath));
-
-            const newValue = await vscode.window.showInputBox({
-              placeHolder: 'Enter the arguments as if within a shell.',
-              title: 'Enter the build arguments for the compiler',
-              value: buildArgs.length === 0 ? undefined : buildArgs,
-            });
-            if (newValue !== undefined) {
-              await this.setBuildArgs(file.fsPath, newValue);
-            }
-          } else if (option === setRunArgs) {
-            const runArgs = quote(this.getRunArgs(file.fsPath));
-
-            const newValue = await vscode.window.showInputBox({
-              placeHolder: 'Enter the arguments as if within a shell.',
-              title: 'Enter the run arguments for the final executable',
-              value: runArgs.length === 0 ? undefined : runArgs,
-            });
-            if (newValue !== undefined) {
-              await this.setRunArgs(file.fsPath, newValue);
-            }
+          const isBuildArgs = option === setBuildArgs;
+          const args = quote(
+            (isBuildArgs ? profile.buildArgs : profile.runArgs) || [],
+          );
+          const newValue = await vscode.window.showInputBox({
+            placeHolder: 'Enter the arguments as if within a shell.',
+            title: isBuildArgs
+              ? 'Enter the build arguments for the compiler'
+              : 'Enter the run arguments for the final executable',
+            value: args.length === 0 ? undefined : args,
+          });
+          if (newValue === undefined) {
+            return false;
           }
-          return true;
+
+          const newArgs = parse(newValue).filter(
+            (x): x is string => typeof x === 'string',
+          );
+          return saveRunProfile(doc, profile, {
+            ...profile,
+            ...(isBuildArgs ? { buildArgs: newArgs } : { runArgs: newArgs }),
+          });
         },
       ),
     );
   }
 
+  /**
+   * Execute the given run of the history again, with the current settings of
+   * its profile. Resolves to whether it could be executed.
+   */
+  private async executeHistoryEntry(entry: RunHistoryEntry): Promise<boolean> {
+    if (!(await fileExists(entry.file))) {
+      vscode.window.showErrorMessage(
+        `Couldn't find '${entry.file}', it was removed from the run history.`,
+      );
+      await this.history.remove(entry);
+      return false;
+    }
+
+    const file = vscode.Uri.file(entry.file);
+    if (entry.kind === 'run') {
+      await this.executeFileInTerminal(file, entry.profile);
+    } else {
+      await this.debugFile(
+        file,
+        /*runInTerminal=*/ entry.kind === 'debug-in-terminal',
+        entry.profile,
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Records the given execution of a document in the run history.
+   */
+  private async recordRun(
+    kind: RunKind,
+    doc: vscode.TextDocument,
+    profile: ResolvedRunProfile,
+  ) {
+    const sdk = await this.envManager.getActiveSDK(
+      vscode.workspace.getWorkspaceFolder(doc.uri),
+    );
+    await this.history.add({
+      kind,
+      file: doc.fileName,
+      profile: profile.name,
+      buildArgs: profile.buildArgs,
+      runArgs: profile.runArgs,
+      sdk: sdk?.version ?? 'unknown',
+      time: Date.now(),
+    });
+  }
+
   /**
    * Execute the current file in a terminal.
    *
-   * @param options Options to consider when executing the file.
+   * @param profileName The name of the run profile to use. The user chooses
+   *     one if undefined.
+   * @param record Whether the run is recorded in the run history, which
+   *     automatic runs, e.g. of the watch mode, aren't.
+   * @returns The terminal running the file, or undefined if it couldn't be
+   *     run.
    */
-  async executeFileInTerminal(file: Optional<vscode.Uri>) {
+  async executeFileInTerminal(
+    file: Optional<vscode.Uri>,
+    profileName?: string,
+    record: boolean = true,
+  ): Promise<Optional<MojoRunTerminal>> {
     const doc = await this.getDocumentToExecute(file);
 
     if (!doc) {
-      return;
+      return undefined;
     }
 
     // Find the config for processing this file.
-    const sdk = await this.envManager.getActiveSDK();
+    const sdk = await this.envManager.getActiveSDK(
+      vscode.workspace.getWorkspaceFolder(doc.uri),
+    );
 
     if (!sdk) {
+      return undefined;
+    }
+
+    const profile = await this.getRunProfile(doc, 'Run Mojo File', profileName);
+    if (!profile) {
+      return undefined;
+    }
+    if (record) {
+      await this.recordRun('run', doc, profile);
+    }
+
+    // Execute the file. A run of the same file still in progress is stopped.
+    const { terminal, pty } = this.getTerminalForFile(doc.fileName);
+    terminal.show();
+    await pty.start({
+      command: sdk.mojoPath,
+      args: ['run', ...profile.buildArgs, doc.fileName, ...profile.runArgs],
+      cwd:
+        profile.cwd ??
+        vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.fsPath ??
+        path.dirname(doc.fileName),
+      env: { ...sdk.getProcessEnv(), ...profile.env },
+      stdin: profile.stdin,
+    });
+    this.focusAfterLaunch(doc.uri);
+    return pty;
+  }
+
+  /**
+   * Run the code selected in the active editor, wrapped in a temporary file
+   * along with the imports of its document.
+   */
+  async runSelection() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+      vscode.window.showErrorMessage('Select the Mojo code to run.');
+      return;
+    }
+
+    const doc = editor.document;
+    const code = createSelectionSnippet(
+      getImports(doc.getText()),
+      doc.getText(editor.selection),
+    );
+    await this.runSnippet(doc, code, 'Run Selection');
+  }
+
+  /**
+   * Run a function of the given file, or of the active editor, wrapped in a
+   * temporary file whose `main` calls it.
+   *
+   * @param range The range of the function to run. Defaults to the function
+   *     under the cursor.
+   */
+  async runFunction(file: Optional<vscode.Uri>, range: Optional<vscode.Range>) {
+    const doc =
+      file === undefined
+        ? vscode.window.activeTextEditor?.document
+        : await vscode.workspace.openTextDocument(file);
+    if (!doc) {
+      vscode.window.showErrorMessage(
+        'Open the Mojo file to run a function of.',
+      );
       return;
     }
 
-    // Execute the file.
-    const terminal = this.getTerminalForFile(doc, sdk);
+    // The cursor only designates a function of the document it's in.
+    const editor = vscode.window.activeTextEditor;
+    const functions = await this.getFunctions(doc);
+    const position =
+      range?.start ??
+      (editor?.document === doc ? editor.selection.active : undefined);
+    const func = position && findFunctionAt(functions, position);
+    if (!func) {
+      vscode.window.showErrorMessage('There is no function to run here.');
+      return;
+    }
+
+    const functionCode = doc.getText(func.range);
+    let callArgs = '';
+    if (hasParameters(functionCode)) {
+      const input = await vscode.window.showInputBox({
+        title: `Run ${func.name}`,
+        prompt: `Enter the arguments of ${func.name}, as written in a call.`,
+        placeHolder: 'e.g. 1, "text"',
+      });
+      if (input === undefined) {
+        return;
+      }
+      callArgs = input;
+    }
+
+    const code = createFunctionSnippet(
+      getImports(doc.getText()),
+      functionCode,
+      func.name,
+      callArgs,
+    );
+    await this.runSnippet(doc, code, `Run ${func.name}`);
+  }
+
+  /**
+   * Returns the top-level functions of the given document, as reported by the
+   * language server serving it, or as parsed from its text if there is none.
+   */
+  private async getFunctions(
+    doc: vscode.TextDocument,
+  ): Promise<MojoFunctionSymbol[]> {
+    const client = this.lspManager.getClientForDocument(doc);
+    if (client) {
+      try {
+        return await getFunctionSymbols(client, doc);
+      } catch (error) {
+        this.logger.error(
+          `Unable to get the symbols of ${doc.fileName}`,
+          error,
+        );
+      }
+    }
+    return parseFunctions(doc.getText());
+  }
+
+  /**
+   * Provides the actions shown above the functions of the given document: run
+   * and debug actions above `main`, test actions above the test functions of
+   * test files when the test controller is enabled, and `Run Function` above
+   * the other functions.
+   */
+  private async provideCodeLenses(
+    doc: vscode.TextDocument,
+  ): Promise<vscode.CodeLens[]> {
+    const functions = await this.getFunctions(doc);
+    const testsEnabled = config.get<boolean>(
+      'testing.enabled',
+      /*workspaceFolder=*/ undefined,
+      false,
+    );
+    return functions.flatMap((func) => {
+      const range = doc.lineAt(func.range.start.line).range;
+      const lens = (title: string, command: string, ...args: unknown[]) =>
+        new vscode.CodeLens(range, { title, command, arguments: args });
+
+      const kind = getFunctionLensKind(func.name, doc.fileName, testsEnabled);
+      if (kind === 'main') {
+        return [
+          lens('Run', 'mojo.file.run', doc.uri),
+          lens('Debug', 'mojo.file.debug', doc.uri),
+          lens('Debug in Terminal', 'mojo.file.debug-in-terminal', doc.uri),
+          lens('Set Args', 'mojo.file.set-args', doc.uri),
+        ];
+      }
+      if (kind === 'test') {
+        return [
+          lens('Run Test', 'mojo.test.runFunction', doc.uri, func.name),
+          lens('Debug Test', 'mojo.test.debugFunction', doc.uri, func.name),
+        ];
+      }
+      return [
+        lens('Run Function', 'mojo.file.runFunction', doc.uri, func.range),
+      ];
+    });
+  }
+
+  /**
+   * Run the given code from a temporary file, with the directory of the given
+   * document on the import path and the build arguments of its run profile.
+   */
+  private async runSnippet(
+    doc: vscode.TextDocument,
+    code: string,
+    title: string,
+  ) {
+    const sdk = await this.envManager.getActiveSDK(
+      vscode.workspace.getWorkspaceFolder(doc.uri),
+    );
+    if (!sdk) {
+      return;
+    }
+
+    const profile = await this.getRunProfile(doc, title);
+    if (!profile) {
+      return;
+    }
+
+    const snippetDir = path.join(os.tmpdir(), 'mojo-run', md5(doc.fileName));
+    const snippetPath = path.join(
+      snippetDir,
+      `${path.parse(doc.fileName).name}_snippet.mojo`,
+    );
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(snippetDir));
+    if (!(await writeFile(snippetPath, code))) {
+      vscode.window.showErrorMessage(
+        `Couldn't write the code to run to '${snippetPath}'.`,
+      );
+      return;
+    }
+    this.logger.debug(`Running ${snippetPath}:\n${code}`);
+
+    const { terminal, pty } = this.getTerminalForFile(snippetPath);
     terminal.show();
-    terminal.sendText(
-      quote([
-        sdk.mojoPath,
+    await pty.start({
+      command: sdk.mojoPath,
+      args: [
         'run',
-        ...this.getBuildArgs(doc.fileName),
-        doc.fileName,
-        ...this.getRunArgs(doc.fileName),
-      ]),
-    );
+        '-I',
+        path.dirname(doc.fileName),
+        ...profile.buildArgs,
+        snippetPath,
+        ...profile.runArgs,
+      ],
+      cwd:
+        profile.cwd ??
+        vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.fsPath ??
+        path.dirname(doc.fileName),
+      env: { ...sdk.getProcessEnv(), ...profile.env },
+      stdin: profile.stdin,
+    });
+    this.focusAfterLaunch(doc.uri);
+  }
 
-    if (this.shouldTerminalFocusOnStart(doc.uri)) {
+  /**
+   * Focus the terminal or the editor after launching a run, as configured.
+   */
+  private focusAfterLaunch(uri: vscode.Uri) {
+    if (this.shouldTerminalFocusOnStart(uri)) {
       vscode.commands.executeCommand('workbench.action.terminal.focus');
 
       // Sometimes VSCode will focus on the terminal as a side-effect of `terminal.show()`,
@@ -189,28 +715,520 @@ class ExecutionManager extends DisposableContext {
     }
   }
 
+  /**
+   * Build the current file into an executable, reporting the compiler
+   * diagnostics in the Problems panel. Resolves to whether the build succeeded.
+   */
+  async buildFile(file: Optional<vscode.Uri>): Promise<boolean> {
+    const doc = await this.getDocumentToExecute(file);
+    if (!doc) {
+      return false;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
+    if (!sdk) {
+      return false;
+    }
+
+    const profile = await this.getRunProfile(doc, 'Build Mojo File');
+    if (!profile) {
+      return false;
+    }
+
+    const outputPath = this.getBuildOutputPath(doc);
+    const succeeded = await this.compile(
+      sdk,
+      'build',
+      doc.fileName,
+      outputPath,
+      profile.buildArgs,
+      profile.cwd ?? path.dirname(doc.fileName),
+      profile.env,
+    );
+    if (succeeded) {
+      vscode.window.showInformationMessage(
+        `Built ${path.basename(doc.fileName)} into ${outputPath}.`,
+      );
+    }
+    return succeeded;
+  }
+
+  /**
+   * Build the current file once and run the executable several times after
+   * warm-up runs, then show the statistics of the runs compared to the last
+   * benchmark of another git revision. Resolves to whether it succeeded.
+   */
+  async benchmarkFile(file: Optional<vscode.Uri>): Promise<boolean> {
+    const doc = await this.getDocumentToExecute(file);
+    if (!doc) {
+      return false;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
+    if (!sdk) {
+      return false;
+    }
+
+    const profile = await this.getRunProfile(doc, 'Benchmark Mojo File');
+    if (!profile) {
+      return false;
+    }
+
+    const name = path.basename(doc.fileName);
+    const runs = Math.max(
+      1,
+      config.get<number>('benchmark.runs', workspaceFolder, 10),
+    );
+    const warmupRuns = Math.max(
+      0,
+      config.get<number>('benchmark.warmupRuns', workspaceFolder, 1),
+    );
+    const executablePath = path.join(
+      os.tmpdir(),
+      'mojo-benchmark',
+      md5(doc.fileName),
+      path.parse(doc.fileName).name,
+    );
+    const built = await this.compile(
+      sdk,
+      'build',
+      doc.fileName,
+      executablePath,
+      profile.buildArgs,
+      profile.cwd ?? path.dirname(doc.fileName),
+      profile.env,
+    );
+    if (!built) {
+      return false;
+    }
+
+    const run: MojoRun = {
+      command: executablePath,
+      args: profile.runArgs,
+      cwd:
+        profile.cwd ??
+        workspaceFolder?.uri.fsPath ??
+        path.dirname(doc.fileName),
+      env: { ...sdk.getProcessEnv(), ...profile.env },
+      stdin: profile.stdin,
+    };
+    let samples: BenchmarkSample[];
+    try {
+      samples = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Benchmarking ${name}`,
+          cancellable: true,
+        },
+        async (progress, token) => {
+          const samples: BenchmarkSample[] = [];
+          const total = warmupRuns + runs;
+          for (let i = 0; i < total; i++) {
+            progress.report({
+              message:
+                i < warmupRuns
+                  ? `warm-up run ${i + 1}/${warmupRuns}`
+                  : `run ${i - warmupRuns + 1}/${runs}`,
+              increment: 100 / total,
+            });
+            const sample = await measureRun(run, token);
+            if (i >= warmupRuns) {
+              samples.push(sample);
+            }
+          }
+          return samples;
+        },
+      );
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        this.logger.info(`The benchmark of ${doc.fileName} was cancelled.`);
+        return false;
+      }
+      this.logger.error(`The benchmark of ${doc.fileName} failed`, error);
+      vscode.window
+        .showErrorMessage(`The benchmark of ${name} failed.`, 'View Logs')
+        .then((choice) => {
+          if (choice) {
+            this.logger.main.outputChannel.show();
+          }
+        });
+      return false;
+    }
+
+    const maxRssKb = samples.flatMap((sample) =>
+      sample.maxRssKb === undefined ? [] : [sample.maxRssKb],
+    );
+    const result: BenchmarkResult = {
+      file: doc.fileName,
+      revision: await getGitRevision(doc.fileName),
+      profile: profile.name,
+      buildArgs: profile.buildArgs,
+      runArgs: profile.runArgs,
+      runs,
+      warmupRuns,
+      wallTimeMs: computeStats(samples.map((sample) => sample.wallTimeMs)),
+      maxRssKb:
+        maxRssKb.length === samples.length ? computeStats(maxRssKb) : undefined,
+      time: Date.now(),
+    };
+    await this.benchmarks.add(result);
+    this.logger.info(
+      `Benchmarked ${doc.fileName} at ${result.revision ?? 'no revision'}: ${result.wallTimeMs.mean.toFixed(2)} ms on average.`,
+    );
+    await this.showBenchmarkReport(result, this.benchmarks.getBaseline(result));
+    return true;
+  }
+
+  /**
+   * Let the user pick two benchmark results of the given file, or of the
+   * active file, and show their comparison.
+   */
+  async compareBenchmarks(file: Optional<vscode.Uri>): Promise<boolean> {
+    const fileName =
+      file?.fsPath ?? vscode.window.activeTextEditor?.document.fileName;
+    const results = fileName ? this.benchmarks.getResults(fileName) : [];
+    if (results.length < 2) {
+      vscode.window.showInformationMessage(
+        'Benchmark the file at least twice, e.g. at two git revisions, to compare the results.',
+      );
+      return false;
+    }
+
+    const items = results.map((result) => ({
+      label: result.revision ?? 'No revision',
+      description: new Date(result.time).toLocaleString(),
+      detail: `${result.wallTimeMs.mean.toFixed(2)} ms on average · ${result.profile}`,
+      result,
+    }));
+    const current = await vscode.window.showQuickPick(items, {
+      title: 'Compare Benchmark Results',
+      placeHolder: 'Select the result to compare',
+    });
+    if (!current) {
+      return false;
+    }
+    const baseline = await vscode.window.showQuickPick(
+      items.filter((item) => item !== current),
+      {
+        title: 'Compare Benchmark Results',
+        placeHolder: `Select the result to compare ${current.label} to`,
+      },
+    );
+    if (!baseline) {
+      return false;
+    }
+    await this.showBenchmarkReport(current.result, baseline.result);
+    return true;
+  }
+
+  private async showBenchmarkReport(
+    result: BenchmarkResult,
+    baseline: Optional<BenchmarkResult>,
+  ) {
+    const doc = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: formatBenchmarkReport(result, baseline),
+    });
+    await vscode.commands.executeCommand('markdown.showPreview', doc.uri);
+  }
+
+  /**
+   * Build the given folder, or the package of the active file, into a
+   * `.mojopkg` with `mojo package`. Resolves to whether the build succeeded.
+   */
+  async buildPackage(folder: Optional<vscode.Uri>): Promise<boolean> {
+    const activeFile = vscode.window.activeTextEditor?.document.fileName;
+    const packageDir =
+      folder?.fsPath ??
+      (activeFile &&
+        (await moveUpUntil(path.dirname(activeFile), (dir) =>
+          fileExists(path.join(dir, PACKAGE_INIT_FILE)),
+        )));
+    if (!packageDir) {
+      vscode.window.showErrorMessage(
+        `Choose a folder containing an '${PACKAGE_INIT_FILE}' file to package.`,
+      );
+      return false;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(
+      vscode.Uri.file(packageDir),
+    );
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
+    if (!sdk) {
+      return false;
+    }
+
+    const outputPath = this.getPackageOutputPath(packageDir, workspaceFolder);
+    const succeeded = await this.compile(
+      sdk,
+      'package',
+      packageDir,
+      outputPath,
+      /*extraArgs=*/ [],
+      path.dirname(packageDir),
+      /*env=*/ {},
+    );
+    if (succeeded) {
+      vscode.window.showInformationMessage(
+        `Built ${path.basename(packageDir)} into ${outputPath}.`,
+      );
+    }
+    if (
+      succeeded &&
+      config.get<boolean>('package.addToIncludeDirs', workspaceFolder, false)
+    ) {
+      await this.addToIncludeDirs(path.dirname(outputPath));
+    }
+    return succeeded;
+  }
+
+  /**
+   * Compile the given file or package with `mojo build` or `mojo package`
+   * under a cancellable progress notification, reporting the compiler
+   * diagnostics in the Problems panel. Resolves to whether it succeeded.
+   */
+  private async compile(
+    sdk: SDK,
+    subcommand: 'build' | 'package',
+    source: string,
+    outputPath: string,
+    extraArgs: string[],
+    cwd: string,
+    env: Record<string, string>,
+  ): Promise<boolean> {
+    await vscode.workspace.fs.createDirectory(
+      vscode.Uri.file(path.dirname(outputPath)),
+    );
+    const includeDirs = config.get<string[]>(
+      'lsp.includeDirs',
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(source)),
+      [],
+    );
+    const args = [
+      subcommand,
+      '--diagnostic-format',
+      'json',
+      ...includeDirs.flatMap((includeDir) => ['-I', includeDir]),
+      ...extraArgs,
+      source,
+      '-o',
+      outputPath,
+    ];
+    const name = path.basename(source);
+    this.logger.info(`Building ${source}: ${quote(args)}`);
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Building ${name}...`,
+        cancellable: true,
+      },
+      (_progress, token) =>
+        new Promise<Optional<{ succeeded: boolean; output: string }>>(
+          (resolve) => {
+            const build = execFile(
+              sdk.mojoPath,
+              args,
+              { cwd, env: { ...sdk.getProcessEnv(), ...env } },
+              (error, stdout, stderr) => {
+                resolve(
+                  token.isCancellationRequested
+                    ? undefined
+                    : { succeeded: !error, output: `${stdout}\n${stderr}` },
+                );
+              },
+            );
+            token.onCancellationRequested(() => build.kill());
+          },
+        ),
+    );
+    if (!result) {
+      this.logger.info(`The build of ${source} was cancelled.`);
+      return false;
+    }
+
+    this.buildDiagnostics.clear();
+    const diagnostics = parseJSONDiagnostics(result.output, cwd, this.logger);
+    for (const [file, fileDiagnostics] of toVSCodeDiagnostics(diagnostics)) {
+      this.buildDiagnostics.set(vscode.Uri.file(file), fileDiagnostics);
+    }
+
+    if (result.succeeded) {
+      this.logger.info(`Built ${outputPath}`);
+      return true;
+    }
+
+    this.logger.error(`The build of ${source} failed:\n${result.output}`);
+    const errorCount = diagnostics.filter(
+      (diagnostic) => diagnostic.severity === 'error',
+    ).length;
+    const showProblems = 'Show Problems';
+    const viewLogs = 'View Logs';
+    vscode.window
+      .showErrorMessage(
+        errorCount > 0
+          ? `The build of ${name} failed with ${errorCount} error(s).`
+          : `The build of ${name} failed.`,
+        errorCount > 0 ? showProblems : viewLogs,
+      )
+      .then((choice) => {
+        if (choice === showProblems) {
+          vscode.commands.executeCommand('workbench.actions.view.problems');
+        } else if (choice === viewLogs) {
+          this.logger.main.outputChannel.show();
+        }
+      });
+    return false;
+  }
+
+  /**
+   * Adds the given directory to the `mojo.lsp.includeDirs` setting, restarting
+   * the language server so that it picks the packages of the directory up.
+   */
+  private async addToIncludeDirs(dir: string) {
+    const includeDirs = config.get<string[]>(
+      'lsp.includeDirs',
+      /*workspaceFolder=*/ undefined,
+      [],
+    );
+    if (includeDirs.some((includeDir) => path.resolve(includeDir) === dir)) {
+      return;
+    }
+
+    // The package is only relevant to this workspace, so it isn't added to
+    // the user settings, where it would affect every workspace.
+    if (!vscode.workspace.workspaceFolders) {
+      this.logger.warn(
+        `Not adding ${dir} to mojo.lsp.includeDirs: no workspace is open.`,
+      );
+      return;
+    }
+    await config.update(
+      'lsp.includeDirs',
+      [...includeDirs, dir],
+      vscode.ConfigurationTarget.Workspace,
+    );
+    this.logger.info(`Added ${dir} to mojo.lsp.includeDirs`);
+    vscode.commands.executeCommand('mojo.lsp.restart');
+  }
+
+  /**
+   * Returns the path of the `.mojopkg` built from the given package folder, as
+   * configured by the `mojo.package.outputPath` setting.
+   */
+  private getPackageOutputPath(
+    packageDir: string,
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): string {
+    const outputPath = config
+      .get<string>(
+        'package.outputPath',
+        workspaceFolder,
+        '${packageDirname}/${packageName}.mojopkg',
+      )
+      .replace(/\${packageDirname}/g, path.dirname(packageDir))
+      .replace(/\${packageName}/g, path.basename(packageDir));
+    return path.resolve(
+      workspaceFolder?.uri.fsPath ?? path.dirname(packageDir),
+      substituteVariables(outputPath, workspaceFolder),
+    );
+  }
+
+  /**
+   * Keeps the `mojo.packageFolders` context key listing the folders containing
+   * an `__init__.mojo` file, which the package command is shown for. Only the
+   * workspace folders containing Mojo sources are searched.
+   */
+  private async updatePackageFolders() {
+    const packageFolders: string[] = [];
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      if (!(await hasMojoFiles(folder))) {
+        continue;
+      }
+      const initFiles = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, `**/${PACKAGE_INIT_FILE}`),
+      );
+      packageFolders.push(...initFiles.map((uri) => path.dirname(uri.fsPath)));
+    }
+    vscode.commands.executeCommand(
+      'setContext',
+      'mojo.packageFolders',
+      packageFolders,
+    );
+  }
+
+  /**
+   * Returns the path of the executable built from the given document, as
+   * configured by the `mojo.build.outputPath` setting.
+   */
+  private getBuildOutputPath(doc: vscode.TextDocument): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    const outputPath = config
+      .get<string>(
+        'build.outputPath',
+        workspaceFolder,
+        '${fileDirname}/${fileBasenameNoExtension}',
+      )
+      .replace(/\${fileDirname}/g, path.dirname(doc.fileName))
+      .replace(/\${fileBasenameNoExtension}/g, path.parse(doc.fileName).name);
+    return path.resolve(
+      workspaceFolder?.uri.fsPath ?? path.dirname(doc.fileName),
+      substituteVariables(outputPath, workspaceFolder),
+    );
+  }
+
   /**
    * Debug the current file.
    *
    * @param runInTerminal If true, then a target is launched in a new
    *     terminal, and therefore its stdin and stdout are not managed by the
    *     Debug Console.
+   * @param profileName The name of the run profile to use. The user chooses
+   *     one if undefined.
    */
-  async debugFile(file: Optional<vscode.Uri>, runInTerminal: boolean) {
+  async debugFile(
+    file: Optional<vscode.Uri>,
+    runInTerminal: boolean,
+    profileName?: string,
+  ) {
     const doc = await this.getDocumentToExecute(file);
 
     if (!doc) {
       return;
     }
 
+    const profile = await this.getRunProfile(
+      doc,
+      'Debug Mojo File',
+      profileName,
+    );
+    if (!profile) {
+      return;
+    }
+    await this.recordRun(
+      runInTerminal ? 'debug-in-terminal' : 'debug',
+      doc,
+      profile,
+    );
+
     const debugConfig: MojoDebugConfiguration = {
       type: 'mojo-lldb',
       name: 'Mojo',
       request: 'launch',
       mojoFile: doc.fileName,
       runInTerminal: runInTerminal,
-      buildArgs: this.getBuildArgs(doc.fileName),
-      args: this.getRunArgs(doc.fileName),
+      buildArgs: profile.buildArgs,
+      args: profile.runArgs,
+      env: Object.entries(profile.env).map(
+        ([name, value]) => `${name}=${value}`,
+      ),
+      cwd: profile.cwd,
+      initCommands: profile.stdin
+        ? [`settings set target.input-path "${profile.stdin}"`]
+        : undefined,
     };
     await vscode.debug.startDebugging(
       vscode.workspace.getWorkspaceFolder(doc.uri),
@@ -219,29 +1237,43 @@ class ExecutionManager extends DisposableContext {
   }
 
   /**
-   * Get a terminal to use for the given file.
+   * Get the terminal running the given file.
    */
-  getTerminalForFile(doc: vscode.TextDocument, sdk: SDK): vscode.Terminal {
-    const fullId = `${doc.fileName} · ${sdk.mojoPath}`;
-    // We have to keep the full terminal name short so that VS Code renders it nicely,
-    // and we have to keep it unique among other files.
-    const terminalName = `Mojo: ${path.basename(doc.fileName)} · ${md5(fullId).substring(0, 5)}`;
-
-    // Look for an existing terminal.
-    const terminal = vscode.window.terminals.find(
-      (t) => t.name === terminalName,
-    );
-
-    if (terminal) {
-      return terminal;
+  getTerminalForFile(fileName: string): RunTerminalEntry {
+    const existing = this.runTerminals.get(fileName);
+    if (existing) {
+      return existing;
     }
 
-    // Build a new terminal.
-    return vscode.window.createTerminal({
+    // We have to keep the full terminal name short so that VS Code renders it nicely,
+    // and we have to keep it unique among other files.
+    const terminalName = `Mojo: ${path.basename(fileName)} · ${md5(fileName).substring(0, 5)}`;
+    const pty = new MojoRunTerminal(this.runDiagnostics);
+    const terminal = vscode.window.createTerminal({
       name: terminalName,
-      env: sdk.getProcessEnv(),
-      hideFromUser: true,
+      pty,
+      iconPath: new vscode.ThemeIcon('flame'),
     });
+    const entry = { terminal, pty };
+    this.runTerminals.set(fileName, entry);
+    return entry;
+  }
+
+  /**
+   * Returns the run terminal the stop and re-run commands apply to: the active
+   * terminal if it runs a Mojo file, or otherwise the terminal running the
+   * file of the active editor.
+   */
+  private getActiveRunTerminal(): Optional<RunTerminalEntry> {
+    const entries = Array.from(this.runTerminals.values());
+    return (
+      entries.find(
+        (entry) => entry.terminal === vscode.window.activeTerminal,
+      ) ??
+      this.runTerminals.get(
+        vscode.window.activeTextEditor?.document.fileName ?? '',
+      )
+    );
   }
 
   /**
@@ -296,6 +1328,8 @@ class ExecutionManager extends DisposableContext {
 export function activateRunCommands(
   envManager: PythonEnvironmentManager,
   context: vscode.ExtensionContext,
+  logger: Logger,
+  lspManager: MojoLSPManager,
 ): vscode.Disposable {
-  return new ExecutionManager(envManager, context);
+  return new ExecutionManager(envManager, context, logger, lspManager);
 }
@@ -0,0 +1,178 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as path from 'path';
+import { quote } from 'shell-quote';
+import * as vscode from 'vscode';
+import { DisposableContext } from '../utils/disposableContext';
+import { Optional } from '../types';
+
+/**
+ * How a file was executed.
+ */
+export type RunKind = 'run' | 'debug' | 'debug-in-terminal';
+
+/**
+ * A run or debug session of a Mojo file.
+ */
+export interface RunHistoryEntry {
+  kind: RunKind;
+  /**
+   * The path of the file.
+   */
+  file: string;
+  /**
+   * The name of the run profile.
+   */
+  profile: string;
+  buildArgs: string[];
+  runArgs: string[];
+  /**
+   * The version of the SDK the file was executed with.
+   */
+  sdk: string;
+  /**
+   * When the file was executed, in milliseconds since the epoch.
+   */
+  time: number;
+}
+
+/**
+ * The key of the history in the workspace state.
+ */
+const RUN_HISTORY_KEY = 'runHistory';
+
+/**
+ * The number of entries kept in the history.
+ */
+const MAX_ENTRIES = 20;
+
+const KIND_LABELS: Record<RunKind, string> = {
+  run: 'Run',
+  debug: 'Debug',
+  'debug-in-terminal': 'Debug in terminal',
+};
+
+interface RunHistoryItem extends vscode.QuickPickItem {
+  entry: RunHistoryEntry;
+}
+
+function isSameRun(lhs: RunHistoryEntry, rhs: RunHistoryEntry): boolean {
+  return (
+    lhs.kind === rhs.kind &&
+    lhs.file === rhs.file &&
+    lhs.profile === rhs.profile
+  );
+}
+
+/**
+ * The recent runs and debug sessions of the workspace, most recent first,
+ * persisted in the workspace state. The last one is shown in the status bar,
+ * which executes it again when clicked.
+ */
+export class RunHistory extends DisposableContext {
+  private workspaceState: vscode.Memento;
+  private statusBarItem: vscode.StatusBarItem;
+
+  constructor(workspaceState: vscode.Memento) {
+    super();
+    this.workspaceState = workspaceState;
+
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      'mojo-rerun-last',
+      vscode.StatusBarAlignment.Left,
+    );
+    this.statusBarItem.name = 'Mojo: Rerun Last';
+    this.statusBarItem.command = 'mojo.file.rerunLast';
+    this.pushSubscription(this.statusBarItem);
+    this.refreshStatusBar();
+  }
+
+  get entries(): RunHistoryEntry[] {
+    return this.workspaceState.get<RunHistoryEntry[]>(RUN_HISTORY_KEY, []);
+  }
+
+  get last(): Optional<RunHistoryEntry> {
+    return this.entries[0];
+  }
+
+  /**
+   * Records the given run as the most recent one, replacing the previous
+   * entry of the same file, profile and kind.
+   */
+  async add(entry: RunHistoryEntry) {
+    const entries = this.entries.filter((other) => !isSameRun(other, entry));
+    await this.workspaceState.update(
+      RUN_HISTORY_KEY,
+      [entry, ...entries].slice(0, MAX_ENTRIES),
+    );
+    this.refreshStatusBar();
+  }
+
+  /**
+   * Removes the given run from the history, e.g. because its file was deleted.
+   */
+  async remove(entry: RunHistoryEntry) {
+    await this.workspaceState.update(
+      RUN_HISTORY_KEY,
+      this.entries.filter((other) => !isSameRun(other, entry)),
+    );
+    this.refreshStatusBar();
+  }
+
+  /**
+   * Lets the user pick a run of the history. Resolves to undefined if the user
+   * cancelled or the history is empty.
+   */
+  async pick(): Promise<Optional<RunHistoryEntry>> {
+    const entries = this.entries;
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('No Mojo file has been run yet.');
+      return undefined;
+    }
+
+    const items: RunHistoryItem[] = entries.map((entry) => ({
+      label: path.basename(entry.file),
+      description: `${KIND_LABELS[entry.kind]} · ${entry.profile}`,
+      detail: [
+        vscode.workspace.asRelativePath(entry.file),
+        ...(entry.buildArgs.length > 0
+          ? [`build: ${quote(entry.buildArgs)}`]
+          : []),
+        ...(entry.runArgs.length > 0 ? [`run: ${quote(entry.runArgs)}`] : []),
+        `SDK ${entry.sdk}`,
+      ].join(' · '),
+      entry,
+    }));
+    const choice = await vscode.window.showQuickPick(items, {
+      title: 'Mojo Run History',
+      placeHolder: 'Select the run to execute again',
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+    return choice?.entry;
+  }
+
+  private refreshStatusBar() {
+    const last = this.last;
+    if (!last) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const icon = last.kind === 'run' ? '$(play)' : '$(debug-alt)';
+    this.statusBarItem.text = `${icon} ${path.basename(last.file)}`;
+    this.statusBarItem.tooltip = `Rerun last: ${KIND_LABELS[last.kind]} ${vscode.workspace.asRelativePath(last.file)} (${last.profile})`;
+    this.statusBarItem.show();
+  }
+}
@@ -0,0 +1,332 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as path from 'path';
+import { quote } from 'shell-quote';
+import * as vscode from 'vscode';
+import * as config from '../utils/config';
+import { escapeGlob } from '../utils/files';
+import { substituteVariables } from '../utils/vscodeVariables';
+import { Logger } from '../logging';
+import { Optional } from '../types';
+
+/**
+ * A named set of options used to run and debug the Mojo files matching a
+ * glob, declared in the `mojo.runProfiles` setting.
+ */
+export interface RunProfile {
+  name: string;
+  /**
+   * A glob, relative to the workspace folder, matching the files this profile
+   * applies to. The profile applies to every file if undefined.
+   */
+  files?: string;
+  buildArgs?: string[];
+  runArgs?: string[];
+  env?: Record<string, string>;
+  /**
+   * The working directory, relative to the workspace folder.
+   */
+  cwd?: string;
+  /**
+   * The file whose contents are passed as the standard input, relative to the
+   * workspace folder.
+   */
+  stdin?: string;
+}
+
+/**
+ * A run profile with its variables substituted and its paths made absolute.
+ */
+export interface ResolvedRunProfile {
+  name: string;
+  buildArgs: string[];
+  runArgs: string[];
+  env: Record<string, string>;
+  cwd: Optional<string>;
+  stdin: Optional<string>;
+}
+
+/**
+ * The profile used for the files that no profile applies to.
+ */
+const DEFAULT_PROFILE: RunProfile = { name: 'Default' };
+
+/**
+ * The prefix of the keys the build and run arguments of each file used to be
+ * stored under in the global state.
+ */
+const LEGACY_FILE_ARGS_KEY = 'file.args.';
+
+/**
+ * The prefix of the keys used to persist the last profile chosen for each file
+ * in the workspace state.
+ */
+const LAST_PROFILE_KEY = 'runProfiles.last.';
+
+interface RunProfileItem extends vscode.QuickPickItem {
+  profile: RunProfile;
+}
+
+function isSameProfile(lhs: RunProfile, rhs: RunProfile): boolean {
+  return lhs.name === rhs.name && lhs.files === rhs.files;
+}
+
+/**
+ * Returns a glob matching the given file only, relative to the given workspace
+ * folder.
+ */
+function getProfileGlob(
+  uri: vscode.Uri,
+  folder: vscode.WorkspaceFolder,
+): string {
+  return escapeGlob(path.relative(folder.uri.fsPath, uri.fsPath));
+}
+
+/**
+ * Returns the run profiles that apply to the given document, in the order they
+ * are declared.
+ */
+export function getRunProfiles(doc: vscode.TextDocument): RunProfile[] {
+  const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+  const profiles = config.get<RunProfile[]>('runProfiles', folder, []);
+  return profiles.filter(
+    (profile) =>
+      !profile.files ||
+      vscode.languages.match(
+        {
+          pattern: folder
+            ? new vscode.RelativePattern(folder, profile.files)
+            : profile.files,
+        },
+        doc,
+      ) > 0,
+  );
+}
+
+/**
+ * Returns the run profile with the given name that applies to the given
+ * document, if any.
+ */
+export function findRunProfile(
+  doc: vscode.TextDocument,
+  name: string,
+): Optional<RunProfile> {
+  const profiles = getRunProfiles(doc);
+  if (profiles.length === 0 && name === DEFAULT_PROFILE.name) {
+    return DEFAULT_PROFILE;
+  }
+  return profiles.find((profile) => profile.name === name);
+}
+
+/**
+ * Substitutes the variables of the given profile and resolves its paths
+ * against the workspace folder of the document, or its directory if it's
+ * outside of any workspace folder.
+ */
+export function resolveRunProfile(
+  profile: RunProfile,
+  doc: vscode.TextDocument,
+): ResolvedRunProfile {
+  const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+  const basePath = folder?.uri.fsPath ?? path.dirname(doc.fileName);
+  const substitute = (text: string) => substituteVariables(text, folder);
+  const resolvePath = (fsPath: Optional<string>) =>
+    fsPath ? path.resolve(basePath, substitute(fsPath)) : undefined;
+
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(profile.env || {})) {
+    env[name] = substitute(value);
+  }
+  return {
+    name: profile.name,
+    buildArgs: (profile.buildArgs || []).map(substitute),
+    runArgs: (profile.runArgs || []).map(substitute),
+    env,
+    cwd: resolvePath(profile.cwd),
+    stdin: resolvePath(profile.stdin),
+  };
+}
+
+/**
+ * Chooses the run profile of the given document. The only profile applying to
+ * it is used directly; if several do, the user picks one, with the last one
+ * picked for the document listed first. Resolves to undefined if the user
+ * cancelled.
+ */
+export async function pickRunProfile(
+  doc: vscode.TextDocument,
+  workspaceState: vscode.Memento,
+  title: string,
+): Promise<Optional<RunProfile>> {
+  const profiles = getRunProfiles(doc);
+  if (profiles.length <= 1) {
+    return profiles[0] ?? DEFAULT_PROFILE;
+  }
+
+  const lastProfileKey = LAST_PROFILE_KEY + doc.uri.toString();
+  const lastProfileName = workspaceState.get<string>(lastProfileKey);
+  const items: RunProfileItem[] = profiles.map((profile) => ({
+    label: profile.name,
+    description: profile.files,
+    detail: [
+      ...(profile.buildArgs?.length
+        ? [`build: ${quote(profile.buildArgs)}`]
+        : []),
+      ...(profile.runArgs?.length ? [`run: ${quote(profile.runArgs)}`] : []),
+      ...(profile.stdin ? [`stdin: ${profile.stdin}`] : []),
+    ].join(' · '),
+    profile,
+  }));
+  const lastIndex = items.findIndex((item) => item.label === lastProfileName);
+  if (lastIndex > 0) {
+    items.unshift(...items.splice(lastIndex, 1));
+  }
+
+  const choice = await vscode.window.showQuickPick(items, {
+    title,
+    placeHolder: `Select the run profile of ${path.basename(doc.fileName)}`,
+    matchOnDescription: true,
+  });
+  if (choice) {
+    await workspaceState.update(lastProfileKey, choice.profile.name);
+  }
+  return choice?.profile;
+}
+
+/**
+ * Replaces the given profile with an updated one in the settings that declare
+ * it. The default profile isn't declared anywhere, so updating it declares a
+ * new profile applying to the given document only, in the settings of its
+ * workspace folder. Resolves to whether the profile was saved, which isn't the
+ * case for the default profile of a document outside of any workspace folder.
+ */
+export async function saveRunProfile(
+  doc: vscode.TextDocument,
+  profile: RunProfile,
+  updated: RunProfile,
+): Promise<boolean> {
+  const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+  const values = config.inspect<RunProfile[]>('runProfiles', folder);
+  const targets: [vscode.ConfigurationTarget, Optional<RunProfile[]>][] = [
+    [vscode.ConfigurationTarget.WorkspaceFolder, values?.workspaceFolderValue],
+    [vscode.ConfigurationTarget.Workspace, values?.workspaceValue],
+    [vscode.ConfigurationTarget.Global, values?.globalValue],
+  ];
+
+  if (profile !== DEFAULT_PROFILE) {
+    for (const [target, profiles] of targets) {
+      const index = (profiles || []).findIndex((other) =>
+        isSameProfile(other, profile),
+      );
+      if (index >= 0) {
+        const newProfiles = [...profiles!];
+        newProfiles[index] = updated;
+        await config.update('runProfiles', newProfiles, target, folder);
+        return true;
+      }
+    }
+  }
+
+  // The path of a document outside of any workspace folder would end up in
+  // the user settings, and apply to every workspace.
+  if (!folder) {
+    vscode.window.showWarningMessage(
+      `Run profiles can only be saved for the files of a workspace folder. Add a profile matching '${path.basename(doc.fileName)}' to the 'mojo.runProfiles' setting instead.`,
+    );
+    return false;
+  }
+
+  await addRunProfiles(folder, [
+    {
+      ...updated,
+      name: path.basename(doc.fileName),
+      files: getProfileGlob(doc.uri, folder),
+    },
+  ]);
+  return true;
+}
+
+/**
+ * Declares the given profiles in the settings of the given workspace folder.
+ */
+async function addRunProfiles(
+  folder: vscode.WorkspaceFolder,
+  profiles: RunProfile[],
+) {
+  const values = config.inspect<RunProfile[]>('runProfiles', folder);
+  const newProfiles = (values?.workspaceFolderValue || []).filter(
+    (profile) => !profiles.some((other) => isSameProfile(profile, other)),
+  );
+  await config.update(
+    'runProfiles',
+    [...newProfiles, ...profiles],
+    vscode.ConfigurationTarget.WorkspaceFolder,
+    folder,
+  );
+}
+
+/**
+ * Moves the build and run arguments stored in the global state for the files
+ * of the open workspace folders to run profiles in the settings of these
+ * folders. The arguments of other files are kept until a folder containing
+ * them is opened.
+ */
+export async function migrateLegacyFileArgs(
+  globalState: vscode.Memento,
+  logger: Logger,
+) {
+  const migratedProfiles = new Map<vscode.WorkspaceFolder, RunProfile[]>();
+  const migratedKeys: string[] = [];
+  for (const key of globalState.keys()) {
+    if (!key.startsWith(LEGACY_FILE_ARGS_KEY)) {
+      continue;
+    }
+
+    const uri = vscode.Uri.file(key.substring(LEGACY_FILE_ARGS_KEY.length));
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+      continue;
+    }
+
+    const args = globalState.get<{ buildArgs?: string[]; runArgs?: string[] }>(
+      key,
+    );
+    if (args?.buildArgs?.length || args?.runArgs?.length) {
+      const profiles = migratedProfiles.get(folder) ?? [];
+      profiles.push({
+        name: path.basename(uri.fsPath),
+        files: getProfileGlob(uri, folder),
+        buildArgs: args.buildArgs,
+        runArgs: args.runArgs,
+      });
+      migratedProfiles.set(folder, profiles);
+    }
+    migratedKeys.push(key);
+  }
+
+  for (const [folder, profiles] of migratedProfiles) {
+    logger.info(
+      `Migrating the arguments of ${profiles.length} file(s) to run profiles in '${folder.name}'.`,
+    );
+    try {
+      await addRunProfiles(folder, profiles);
+    } catch (e) {
+      logger.error(`Unable to migrate the run profiles of '${folder.name}'`, e);
+      return;
+    }
+  }
+  for (const key of migratedKeys) {
+    await globalState.update(key, undefined);
+  }
+}
@@ -0,0 +1,261 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import { quote } from 'shell-quote';
+import * as vscode from 'vscode';
+import { Optional } from '../types';
+import {
+  parseMojoDiagnostics,
+  toVSCodeDiagnostics,
+} from '../utils/diagnostics';
+
+/**
+ * A process launched in a `MojoRunTerminal`.
+ */
+export interface MojoRun {
+  command: string;
+  args: string[];
+  cwd: string;
+  /**
+   * The variables added to the environment of the extension host.
+   */
+  env: Record<string, string>;
+  /**
+   * The file whose contents are passed as the standard input, if any. The
+   * input typed in the terminal is used otherwise.
+   */
+  stdin: Optional<string>;
+}
+
+/**
+ * The outcome of a finished run.
+ */
+export interface MojoRunResult {
+  /**
+   * The exit code of the process, or undefined if it was stopped or couldn't
+   * be launched.
+   */
+  exitCode: Optional<number>;
+  durationMs: number;
+}
+
+const RESET = '\x1b[0m';
+const BOLD_RED = '\x1b[1;31m';
+const BOLD_GREEN = '\x1b[1;32m';
+const DIM = '\x1b[2m';
+
+/**
+ * Converts line endings to the ones expected by the terminal.
+ */
+function toTerminalText(text: string): string {
+  return text.replace(/\r?\n/g, '\r\n');
+}
+
+/**
+ * A terminal owning the process it runs, so that it knows when the process
+ * ends and with which exit code. Compiler errors in the output of a run are
+ * reported as diagnostics, and a new run stops the current one.
+ */
+export class MojoRunTerminal implements vscode.Pseudoterminal {
+  private writeEmitter = new vscode.EventEmitter<string>();
+  private finishEmitter = new vscode.EventEmitter<MojoRunResult>();
+  onDidWrite = this.writeEmitter.event;
+  /**
+   * Fired when a run finishes, including when it's stopped.
+   */
+  onDidFinish = this.finishEmitter.event;
+
+  private opened: Promise<void>;
+  private resolveOpened: () => void = () => {};
+  private process: Optional<ChildProcess>;
+  private exited: Optional<Promise<void>>;
+  private lastRun: Optional<MojoRun>;
+  /**
+   * Incremented on every start, so that a start superseded by another one while
+   * waiting for the previous process to exit doesn't launch its process.
+   */
+  private startId = 0;
+  /**
+   * The files this terminal reported diagnostics for in its last run.
+   */
+  private diagnosticUris: vscode.Uri[] = [];
+
+  constructor(private diagnostics: vscode.DiagnosticCollection) {
+    this.opened = new Promise((resolve) => (this.resolveOpened = resolve));
+  }
+
+  open(_initialDimensions: Optional<vscode.TerminalDimensions>) {
+    this.resolveOpened();
+  }
+
+  close() {
+    this.stop();
+    this.clearDiagnostics();
+  }
+
+  handleInput(data: string) {
+    if (this.process) {
+      if (data === '\x03') {
+        this.writeEmitter.fire('^C\r\n');
+        this.stop();
+        return;
+      }
+      // Ctrl+D closes the input of the process, e.g. to end a read loop.
+      if (data === '\x04') {
+        this.writeEmitter.fire('^D\r\n');
+        this.process.stdin?.end();
+        return;
+      }
+      // Echo the input, as the process doesn't run in a real terminal.
+      this.writeEmitter.fire(toTerminalText(data.replace(/\r/g, '\n')));
+      this.process.stdin?.write(data.replace(/\r/g, '\n'));
+    } else if (data === '\r' && this.lastRun) {
+      this.start(this.lastRun);
+    }
+  }
+
+  /**
+   * Whether a process is running in this terminal.
+   */
+  get isRunning(): boolean {
+    return this.process !== undefined;
+  }
+
+  /**
+   * Stops the running process, if any, and resolves once it exited.
+   */
+  async stop() {
+    this.process?.kill();
+    await this.exited;
+  }
+
+  /**
+   * Runs the last process launched in this terminal again.
+   */
+  async rerun() {
+    if (this.lastRun) {
+      await this.start(this.lastRun);
+    }
+  }
+
+  /**
+   * Launches the given process, stopping the running one first. When several
+   * starts overlap, only the last one launches its process.
+   */
+  async start(run: MojoRun) {
+    const startId = ++this.startId;
+    await this.stop();
+    await this.opened;
+    if (startId !== this.startId) {
+      return;
+    }
+    this.lastRun = run;
+    this.clearDiagnostics();
+    this.writeEmitter.fire(
+      `${DIM}> ${quote([run.command, ...run.args])}${RESET}\r\n`,
+    );
+
+    const startTime = Date.now();
+    let output = '';
+    let launchError: Optional<Error>;
+    const child = spawn(run.command, run.args, {
+      cwd: run.cwd,
+      env: { ...process.env, ...run.env },
+    });
+    this.process = child;
+    // The process may exit or close its input before consuming all of it.
+    child.stdin.on('error', () => {});
+
+    if (run.stdin) {
+      const input = fs.createReadStream(run.stdin);
+      input.on('error', (error) =>
+        this.writeEmitter.fire(
+          `${BOLD_RED}Unable to read the input file: ${error.message}${RESET}\r\n`,
+        ),
+      );
+      input.pipe(child.stdin);
+    }
+
+    const onOutput = (data: Buffer) => {
+      const text = data.toString();
+      output += text;
+      this.writeEmitter.fire(toTerminalText(text));
+    };
+    child.stdout.on('data', onOutput);
+    child.stderr.on('data', onOutput);
+
+    this.exited = new Promise((resolve) => {
+      let finished = false;
+      const finish = (exitCode: number | null) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        const durationMs = Date.now() - startTime;
+        this.process = undefined;
+        this.reportDiagnostics(output, run.cwd);
+        this.writeEmitter.fire(
+          this.getExitMessage(exitCode, durationMs, launchError),
+        );
+        this.finishEmitter.fire({
+          exitCode: launchError ? undefined : (exitCode ?? undefined),
+          durationMs,
+        });
+        resolve();
+      };
+
+      child.on('error', (error) => {
+        launchError = error;
+        // A process that couldn't be launched may not emit `close`.
+        if (child.pid === undefined) {
+          finish(null);
+        }
+      });
+      child.on('close', finish);
+    });
+  }
+
+  private getExitMessage(
+    exitCode: number | null,
+    durationMs: number,
+    launchError: Optional<Error>,
+  ): string {
+    const duration = `${(durationMs / 1000).toFixed(2)}s`;
+    const status = launchError
+      ? `${BOLD_RED}Unable to launch the process: ${launchError.message}`
+      : exitCode === null
+        ? `${BOLD_RED}Stopped after ${duration}`
+        : exitCode === 0
+          ? `${BOLD_GREEN}Exited with code 0 after ${duration}`
+          : `${BOLD_RED}Exited with code ${exitCode} after ${duration}`;
+    return `\r\n${status}${RESET}\r\n${DIM}Press Enter to run again.${RESET}\r\n`;
+  }
+
+  private reportDiagnostics(output: string, cwd: string) {
+    const diagnostics = parseMojoDiagnostics(output, cwd);
+    for (const [file, fileDiagnostics] of toVSCodeDiagnostics(diagnostics)) {
+      const uri = vscode.Uri.file(file);
+      this.diagnostics.set(uri, fileDiagnostics);
+      this.diagnosticUris.push(uri);
+    }
+  }
+
+  private clearDiagnostics() {
+    for (const uri of this.diagnosticUris) {
+      this.diagnostics.delete(uri);
+    }
+    this.diagnosticUris = [];
+  }
+}
@@ -0,0 +1,210 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as vscode from 'vscode';
+import { DisposableContext } from '../utils/disposableContext';
+import { Optional } from '../types';
+import { PythonEnvironmentManager, SDKCandidate } from '../pyenv';
+import { generateSDKHealthReport } from './doctor';
+import { getPixiEnvironmentName } from '../sdk/discovery';
+
+interface SDKItem extends vscode.QuickPickItem {
+  /**
+   * The id of the SDK candidate, or undefined for automatic detection.
+   */
+  id: Optional<string>;
+}
+
+interface SDKCandidateItem extends SDKItem {
+  candidate?: SDKCandidate;
+}
+
+/**
+ * Builds the items of the SDK quick pick from the metadata of the candidates,
+ * without loading them. Candidates known to be broken are listed with their
+ * error.
+ */
+async function getSDKItems(
+  envManager: PythonEnvironmentManager,
+  workspaceFolder: Optional<vscode.WorkspaceFolder>,
+): Promise<SDKCandidateItem[]> {
+  const selectedId = envManager.getSelectedSDKId(workspaceFolder);
+  const items: SDKCandidateItem[] = [
+    {
+      label: 'Automatic',
+      description: selectedId === undefined ? 'selected' : undefined,
+      detail: 'Detect the SDK from the workspace and Python environment.',
+      id: undefined,
+    },
+  ];
+
+  for (const candidate of await envManager.getSDKCandidates(workspaceFolder)) {
+    items.push({
+      label: `${candidate.error ? '$(error) ' : ''}${candidate.description}`,
+      description: candidate.id === selectedId ? 'selected' : candidate.kind,
+      detail: candidate.error,
+      id: candidate.id,
+      candidate,
+    });
+  }
+  return items;
+}
+
+/**
+ * Returns the workspace folder whose SDK should be configured: the one of the
+ * active editor if any, otherwise the user is asked to pick one in multi-root
+ * workspaces. Resolves to null if the user cancelled.
+ */
+async function pickWorkspaceFolder(): Promise<Optional<vscode.WorkspaceFolder> | null> {
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const activeFolder =
+    activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+  if (activeFolder) {
+    return activeFolder;
+  }
+
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length > 1) {
+    return (
+      (await vscode.window.showWorkspaceFolderPick({
+        placeHolder: 'Select the workspace folder to configure the SDK for',
+      })) ?? null
+    );
+  }
+  return folders[0];
+}
+
+/**
+ * Activate the SDK related commands.
+ *
+ * @returns A disposable connected to the lifetime of the registered commands.
+ */
+export function activateSDKCommands(
+  envManager: PythonEnvironmentManager,
+): vscode.Disposable {
+  const disposables = new DisposableContext();
+  disposables.pushSubscription(
+    vscode.commands.registerCommand('mojo.sdk.select', async () => {
+      const workspaceFolder = await pickWorkspaceFolder();
+      if (workspaceFolder === null) {
+        return false;
+      }
+
+      const item = await vscode.window.showQuickPick(
+        getSDKItems(envManager, workspaceFolder),
+        {
+          title: workspaceFolder
+            ? `Select the Mojo SDK for '${workspaceFolder.name}'`
+            : 'Select the Mojo SDK',
+          placeHolder:
+            'This will be used by the language server, the debugger, and Mojo commands.',
+          matchOnDetail: true,
+        },
+      );
+
+      if (!item) {
+        return true;
+      }
+
+      // Only the picked candidate is loaded, and it's only selected if it
+      // loads.
+      const candidate = item.candidate;
+      if (candidate) {
+        const sdk = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Loading the Mojo SDK from ${candidate.description}...`,
+          },
+          () => envManager.loadSDKCandidate(candidate, workspaceFolder),
+        );
+        if (!sdk) {
+          vscode.window.showErrorMessage(
+            `Unable to load the Mojo SDK from ${candidate.description}: ${envManager.getSDKCandidateError(candidate.id, workspaceFolder)}`,
+          );
+          return false;
+        }
+      }
+      await envManager.selectSDK(item.id, workspaceFolder);
+      return true;
+    }),
+  );
+  disposables.pushSubscription(
+    vscode.commands.registerCommand(
+      'mojo.sdk.selectPixiEnvironment',
+      async () => {
+        const workspaceFolder = await pickWorkspaceFolder();
+        if (workspaceFolder === null) {
+          return false;
+        }
+
+        const activeId = envManager.getActiveSDKId(workspaceFolder);
+        const items: SDKItem[] = [];
+        for (const candidate of await envManager.getSDKCandidates(
+          workspaceFolder,
+        )) {
+          const envName = getPixiEnvironmentName(candidate.id);
+          if (envName === undefined) {
+            continue;
+          }
+
+          items.push({
+            label: envName,
+            description: candidate.id === activeId ? 'active' : undefined,
+            detail: candidate.description,
+            id: candidate.id,
+          });
+        }
+
+        if (items.length === 0) {
+          vscode.window.showInformationMessage(
+            'No Pixi environment containing a Mojo SDK was found. Run `pixi install` in your project to create one.',
+          );
+          return false;
+        }
+
+        const item = await vscode.window.showQuickPick(items, {
+          title: 'Select the Pixi environment providing the Mojo SDK',
+          matchOnDetail: true,
+        });
+
+        if (item) {
+          await envManager.selectSDK(item.id, workspaceFolder);
+        }
+        return true;
+      },
+    ),
+  );
+  disposables.pushSubscription(
+    vscode.commands.registerCommand('mojo.sdk.doctor', async () => {
+      const workspaceFolder = await pickWorkspaceFolder();
+      if (workspaceFolder === null) {
+        return false;
+      }
+
+      const report = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Checking the Mojo SDK health...',
+        },
+        () => generateSDKHealthReport(envManager, workspaceFolder),
+      );
+      const doc = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: report,
+      });
+      await vscode.commands.executeCommand('markdown.showPreview', doc.uri);
+      return true;
+    }),
+  );
+  return disposables;
+}
@@ -0,0 +1,135 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import {
+  createFunctionSnippet,
+  createSelectionSnippet,
+  getFunctionLensKind,
+  getImports,
+  isTestFile,
+  parseFunctions,
+} from './snippets';
+
+suite('Snippets', () => {
+  test('should collect the imports of a file', () => {
+    const source = [
+      'from collections import List',
+      'from math import (',
+      '    sqrt,',
+      '    floor,',
+      ')',
+      'import os',
+      '',
+      'def main():',
+      '    import sys',
+    ].join('\n');
+
+    assert.deepStrictEqual(getImports(source), [
+      'from collections import List',
+      'from math import (\n    sqrt,\n    floor,\n)',
+      'import os',
+    ]);
+  });
+
+  test('should run a selection as the body of main', () => {
+    assert.strictEqual(
+      createSelectionSnippet(['import os'], '    var x = 1\n    print(x)\n'),
+      'import os\n\n\ndef main():\n    var x = 1\n    print(x)\n',
+    );
+  });
+
+  test('should print the result of a function', () => {
+    const code = createFunctionSnippet(
+      [],
+      'fn add(a: Int, b: Int) -> Int:\n    return a + b',
+      'add',
+      '1, 2',
+    );
+    assert.ok(code.endsWith('def main():\n    print(add(1, 2))\n'));
+
+    const noResult = createFunctionSnippet(
+      [],
+      'fn greet() -> None:\n    print("hi")',
+      'greet',
+      '',
+    );
+    assert.ok(noResult.endsWith('def main():\n    greet()\n'));
+  });
+
+  test('should run main without adding a second main', () => {
+    assert.strictEqual(
+      createFunctionSnippet(
+        ['import os'],
+        'def main():\n    print("hi")',
+        'main',
+        '',
+      ),
+      'import os\n\n\ndef main():\n    print("hi")\n',
+    );
+  });
+
+  test('should parse the top-level functions of a file', () => {
+    const source = [
+      'from testing import assert_equal',
+      '',
+      'def helper(',
+      '    x: Int,',
+      ') -> Int:',
+      '    return x',
+      '',
+      '',
+      'fn test_helper() raises:',
+      '    assert_equal(helper(1), 1)',
+      '',
+      'struct Point:',
+      '    fn norm(self) -> Int:',
+      '        return 0',
+    ].join('\n');
+
+    assert.deepStrictEqual(
+      parseFunctions(source).map((func) => [
+        func.name,
+        func.range.start.line,
+        func.range.end.line,
+      ]),
+      [
+        ['helper', 2, 5],
+        ['test_helper', 8, 9],
+      ],
+    );
+  });
+
+  test('should recognize the files collected by mojo test', () => {
+    assert.ok(isTestFile('/project/test_math.mojo'));
+    assert.ok(isTestFile('/project/math_test.🔥'));
+    assert.ok(!isTestFile('/project/math.mojo'));
+    assert.ok(!isTestFile('/project/testing.mojo'));
+    assert.ok(!isTestFile('/project/test_math.py'));
+  });
+
+  test('should select the CodeLens actions of a function', () => {
+    const testFile = '/project/test_math.mojo';
+    assert.strictEqual(getFunctionLensKind('main', testFile, true), 'main');
+    assert.strictEqual(getFunctionLensKind('test_add', testFile, true), 'test');
+    assert.strictEqual(
+      getFunctionLensKind('test_add', testFile, false),
+      'function',
+    );
+    assert.strictEqual(
+      getFunctionLensKind('test_add', '/project/math.mojo', true),
+      'function',
+    );
+    assert.strictEqual(getFunctionLensKind('add', testFile, true), 'function');
+  });
+});
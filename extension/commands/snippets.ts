@@ -0,0 +1,247 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as vscodelc from 'vscode-languageclient/node';
+import { Optional } from '../types';
+
+/**
+ * Matches the top-level import statements of a Mojo file.
+ */
+const IMPORT_REGEX = /^(from\s+\S+\s+)?import\s+.+$/;
+
+/**
+ * Matches the declaration of a `main` function.
+ */
+const MAIN_REGEX = /^(def|fn)\s+main\s*\(/m;
+
+/**
+ * Matches the declaration of a top-level function, capturing its name.
+ */
+const FUNCTION_REGEX = /^(?:def|fn)\s+(\w+)/;
+
+/**
+ * A top-level function of a Mojo file.
+ */
+export interface MojoFunctionSymbol {
+  name: string;
+  range: vscode.Range;
+}
+
+/**
+ * Returns the top-level import statements of the given Mojo source, including
+ * the lines they're continued on.
+ */
+export function getImports(source: string): string[] {
+  const imports: string[] = [];
+  const lines = source.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    if (!IMPORT_REGEX.test(lines[i])) {
+      continue;
+    }
+
+    let statement = lines[i];
+    // Parenthesized imports may span several lines.
+    if (statement.includes('(') && !statement.includes(')')) {
+      while (++i < lines.length) {
+        statement += '\n' + lines[i];
+        if (lines[i].includes(')')) {
+          break;
+        }
+      }
+    }
+    imports.push(statement);
+  }
+  return imports;
+}
+
+/**
+ * Removes the indentation shared by all the non-empty lines of the given code.
+ */
+export function dedent(code: string): string {
+  const lines = code.replace(/\s+$/, '').split(/\r?\n/);
+  const indents = lines
+    .filter((line) => line.trim().length > 0)
+    .map((line) => line.length - line.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.substring(indent)).join('\n');
+}
+
+function indent(code: string): string {
+  return code
+    .split('\n')
+    .map((line) => (line.length > 0 ? '    ' + line : line))
+    .join('\n');
+}
+
+/**
+ * Creates a Mojo program running the given selected code. Code declaring a
+ * `main` function is used as-is; other code is run as the body of `main`.
+ */
+export function createSelectionSnippet(
+  imports: string[],
+  selection: string,
+): string {
+  const code = dedent(selection);
+  const body = MAIN_REGEX.test(code) ? code : `def main():\n${indent(code)}`;
+  return [...imports, '', '', body, ''].join('\n');
+}
+
+/**
+ * Creates a Mojo program calling the given function with the given arguments,
+ * and printing its result if it returns one. A `main` function is run as-is,
+ * rather than called from a second `main`.
+ */
+export function createFunctionSnippet(
+  imports: string[],
+  functionCode: string,
+  name: string,
+  callArgs: string,
+): string {
+  const code = dedent(functionCode);
+  if (MAIN_REGEX.test(code)) {
+    return [...imports, '', '', code, ''].join('\n');
+  }
+
+  const signature = code.substring(0, code.indexOf(':\n') + 1 || undefined);
+  const returnsValue = /->\s*(?!None\b)\S/.test(signature);
+  const call = `${name}(${callArgs})`;
+  return [
+    ...imports,
+    '',
+    '',
+    code,
+    '',
+    '',
+    'def main():',
+    `    ${returnsValue ? `print(${call})` : call}`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Returns whether the function with the given code takes parameters.
+ */
+export function hasParameters(functionCode: string): boolean {
+  const match = /\(([^)]*)\)/.exec(functionCode);
+  return !!match && match[1].trim().length > 0;
+}
+
+/**
+ * Asks the language server for the top-level functions of the given document,
+ * through `textDocument/documentSymbol`. Methods are nested in their struct, so
+ * they're not included.
+ */
+export async function getFunctionSymbols(
+  client: vscodelc.LanguageClient,
+  doc: vscode.TextDocument,
+): Promise<MojoFunctionSymbol[]> {
+  const symbols: Optional<
+    (vscodelc.DocumentSymbol | vscodelc.SymbolInformation)[]
+  > = await client.sendRequest('textDocument/documentSymbol', {
+    textDocument: { uri: doc.uri.toString() },
+  });
+
+  return (symbols || [])
+    .filter((symbol) => symbol.kind === vscodelc.SymbolKind.Function)
+    .map((symbol) => ({
+      // Drop the signature, if the name includes it.
+      name: symbol.name.replace(/[([].*$/, ''),
+      range: client.protocol2CodeConverter.asRange(
+        'range' in symbol ? symbol.range : symbol.location.range,
+      ),
+    }));
+}
+
+/**
+ * The set of actions shown above a function: the ones of the file for `main`,
+ * the ones of the test for a test function, and `Run Function` for the others.
+ */
+export type FunctionLensKind = 'main' | 'test' | 'function';
+
+/**
+ * Returns whether `mojo test` collects the tests of the file with the given
+ * path, which is the case when its name starts with `test_` or ends with
+ * `_test`.
+ */
+export function isTestFile(fileName: string): boolean {
+  const name = path.basename(fileName).replace(/\.(mojo|🔥)$/, '');
+  return (
+    name !== path.basename(fileName) &&
+    (name.startsWith('test_') || name.endsWith('_test'))
+  );
+}
+
+/**
+ * Returns the set of actions shown above the function with the given name in
+ * the file with the given path. Test actions are only shown for the test
+ * functions of test files, and only if tests are enabled.
+ */
+export function getFunctionLensKind(
+  name: string,
+  fileName: string,
+  testsEnabled: boolean,
+): FunctionLensKind {
+  if (name === 'main') {
+    return 'main';
+  }
+  return testsEnabled && name.startsWith('test') && isTestFile(fileName)
+    ? 'test'
+    : 'function';
+}
+
+/**
+ * Finds the top-level functions of the given Mojo source without the language
+ * server. A function ends before the next line starting at the first column,
+ * so this is only an approximation.
+ */
+export function parseFunctions(source: string): MojoFunctionSymbol[] {
+  const functions: MojoFunctionSymbol[] = [];
+  const lines = source.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const match = FUNCTION_REGEX.exec(lines[i]);
+    if (!match) {
+      continue;
+    }
+
+    let end = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      const line = lines[j];
+      if (line.trim().length === 0) {
+        continue;
+      }
+      // The closing parenthesis of a multi-line signature may be unindented.
+      if (!/^\s/.test(line) && !line.startsWith(')')) {
+        break;
+      }
+      end = j;
+    }
+    functions.push({
+      name: match[1],
+      range: new vscode.Range(i, 0, end, lines[end].length),
+    });
+    i = end;
+  }
+  return functions;
+}
+
+/**
+ * Returns the function containing the given position, if any.
+ */
+export function findFunctionAt(
+  functions: MojoFunctionSymbol[],
+  position: vscode.Position,
+): Optional<MojoFunctionSymbol> {
+  return functions.find((symbol) => symbol.range.contains(position));
+}
@@ -0,0 +1,52 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getWatchRoot } from './watch';
+
+suite('Watch', () => {
+  let root: string;
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mojo-watch-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should watch the outermost package of a file', async () => {
+    const subpackage = path.join(root, 'mypkg', 'utils');
+    fs.mkdirSync(subpackage, { recursive: true });
+    fs.writeFileSync(path.join(root, 'mypkg', '__init__.mojo'), '');
+    fs.writeFileSync(path.join(subpackage, '__init__.mojo'), '');
+
+    assert.strictEqual(
+      await getWatchRoot(path.join(subpackage, 'strings.mojo')),
+      path.join(root, 'mypkg'),
+    );
+  });
+
+  test('should watch the directory of a file outside of a package', async () => {
+    const scripts = path.join(root, 'scripts');
+    fs.mkdirSync(scripts);
+
+    assert.strictEqual(
+      await getWatchRoot(path.join(scripts, 'main.mojo')),
+      scripts,
+    );
+  });
+});
@@ -0,0 +1,256 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DisposableContext } from '../utils/disposableContext';
+import { fileExists } from '../utils/files';
+import { Logger } from '../logging';
+import { Optional } from '../types';
+import { MojoRunResult, MojoRunTerminal } from './runTerminal';
+
+/**
+ * The delay after the last save of a burst before the file is run again.
+ */
+const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Runs the given file with the run profile of the given name, resolving to the
+ * terminal running it, or to undefined if it couldn't be run.
+ */
+export type WatchRunner = (
+  file: vscode.Uri,
+  profile: string,
+) => Promise<Optional<MojoRunTerminal>>;
+
+/**
+ * A file run again whenever a Mojo file of its package is saved.
+ */
+interface WatchedFile {
+  file: string;
+  profile: string;
+  /**
+   * The directory whose Mojo files trigger a run when saved.
+   */
+  root: string;
+  timer: Optional<NodeJS.Timeout>;
+  /**
+   * Incremented on every run so that the outcome of outdated runs is ignored.
+   */
+  runId: number;
+  status: 'running' | 'succeeded' | 'failed' | 'stopped';
+}
+
+/**
+ * Returns the directory whose Mojo files are watched for the given file: the
+ * root of the package containing it, or its own directory if it isn't part of
+ * a package.
+ */
+export async function getWatchRoot(file: string): Promise<string> {
+  let root = path.dirname(file);
+  if (!(await fileExists(path.join(root, '__init__.mojo')))) {
+    return root;
+  }
+
+  // Climb to the outermost package containing the file.
+  let parent = path.dirname(root);
+  while (
+    parent !== root &&
+    (await fileExists(path.join(parent, '__init__.mojo')))
+  ) {
+    root = parent;
+    parent = path.dirname(root);
+  }
+  return root;
+}
+
+/**
+ * Runs files again when they or a Mojo file of their package are saved, and
+ * shows the outcome of the last runs in the status bar. A run still in
+ * progress is stopped by the next one.
+ */
+export class MojoRunWatcher extends DisposableContext {
+  private runner: WatchRunner;
+  private logger: Logger;
+  private statusBarItem: vscode.StatusBarItem;
+  /**
+   * The watched files, keyed by path.
+   */
+  private watchedFiles = new Map<string, WatchedFile>();
+
+  constructor(runner: WatchRunner, logger: Logger) {
+    super();
+    this.runner = runner;
+    this.logger = logger;
+
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      'mojo-watch',
+      vscode.StatusBarAlignment.Left,
+    );
+    this.statusBarItem.name = 'Mojo Watch Mode';
+    this.statusBarItem.command = 'mojo.file.stopWatching';
+    this.pushSubscription(this.statusBarItem);
+
+    this.pushSubscription(
+      vscode.workspace.onDidSaveTextDocument((doc) => this.onDidSave(doc)),
+    );
+    this.pushSubscription(
+      new vscode.Disposable(() => {
+        for (const watched of this.watchedFiles.values()) {
+          clearTimeout(watched.timer);
+        }
+      }),
+    );
+  }
+
+  isWatching(file: string): boolean {
+    return this.watchedFiles.has(file);
+  }
+
+  /**
+   * Starts watching the given file with the given run profile, and runs it.
+   */
+  async watch(file: string, profile: string) {
+    this.unwatch(file);
+    const watched: WatchedFile = {
+      file,
+      profile,
+      root: await getWatchRoot(file),
+      timer: undefined,
+      runId: 0,
+      status: 'running',
+    };
+    this.watchedFiles.set(file, watched);
+    this.logger.info(
+      `Watching the Mojo files of ${watched.root} to run ${file} with the profile '${profile}'.`,
+    );
+    await this.run(watched);
+  }
+
+  /**
+   * Stops watching the given file. The run in progress, if any, isn't stopped.
+   */
+  unwatch(file: string) {
+    const watched = this.watchedFiles.get(file);
+    if (!watched) {
+      return;
+    }
+    clearTimeout(watched.timer);
+    this.watchedFiles.delete(file);
+    this.logger.info(`Stopped watching ${file}.`);
+    this.refreshStatusBar();
+  }
+
+  unwatchAll() {
+    for (const file of Array.from(this.watchedFiles.keys())) {
+      this.unwatch(file);
+    }
+  }
+
+  private onDidSave(doc: vscode.TextDocument) {
+    if (doc.languageId !== 'mojo') {
+      return;
+    }
+
+    for (const watched of this.watchedFiles.values()) {
+      const relativePath = path.relative(watched.root, doc.fileName);
+      if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        continue;
+      }
+
+      // Save bursts, e.g. with "Save All", only trigger a single run.
+      clearTimeout(watched.timer);
+      watched.timer = setTimeout(() => {
+        watched.timer = undefined;
+        this.run(watched);
+      }, WATCH_DEBOUNCE_MS);
+    }
+  }
+
+  private async run(watched: WatchedFile) {
+    const runId = ++watched.runId;
+    watched.status = 'running';
+    this.refreshStatusBar();
+
+    const pty = await this.runner(
+      vscode.Uri.file(watched.file),
+      watched.profile,
+    );
+    if (!pty) {
+      this.setStatus(watched, runId, 'failed');
+      return;
+    }
+
+    const result = await new Promise<MojoRunResult>((resolve) => {
+      const listener = pty.onDidFinish((result) => {
+        listener.dispose();
+        resolve(result);
+      });
+    });
+    this.setStatus(
+      watched,
+      runId,
+      result.exitCode === undefined
+        ? 'stopped'
+        : result.exitCode === 0
+          ? 'succeeded'
+          : 'failed',
+    );
+  }
+
+  private setStatus(
+    watched: WatchedFile,
+    runId: number,
+    status: WatchedFile['status'],
+  ) {
+    // The outcome of a run superseded by a newer one is irrelevant.
+    if (runId !== watched.runId) {
+      return;
+    }
+    watched.status = status;
+    this.refreshStatusBar();
+  }
+
+  private refreshStatusBar() {
+    const watchedFiles = Array.from(this.watchedFiles.values());
+    if (watchedFiles.length === 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const statusIcons: Record<WatchedFile['status'], string> = {
+      running: '$(sync~spin)',
+      succeeded: '$(check)',
+      failed: '$(error)',
+      stopped: '$(debug-stop)',
+    };
+    const label =
+      watchedFiles.length === 1
+        ? path.basename(watchedFiles[0].file)
+        : `${watchedFiles.length} files`;
+    const status = watchedFiles.some((watched) => watched.status === 'running')
+      ? 'running'
+      : watchedFiles.some((watched) => watched.status === 'failed')
+        ? 'failed'
+        : watchedFiles[0].status;
+    this.statusBarItem.text = `$(eye) ${label} ${statusIcons[status]}`;
+    this.statusBarItem.tooltip = [
+      'Mojo watch mode, click to stop watching:',
+      ...watchedFiles.map(
+        (watched) =>
+          `${vscode.workspace.asRelativePath(watched.file)} (${watched.profile}): ${watched.status}`,
+      ),
+    ].join('\n');
+    this.statusBarItem.show();
+  }
+}
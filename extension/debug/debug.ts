@@ -21,8 +21,9 @@ import { initializeInlineLocalVariablesProvider } from './inlineVariables';
 import { MojoExtension } from '../extension';
 import { quote } from 'shell-quote';
 import { Optional } from '../types';
-import { PythonEnvironmentManager, SDK, SDKKind } from '../pyenv';
+import { PythonEnvironmentManager, SDK, SDKFeature, SDKKind } from '../pyenv';
 import { Logger } from '../logging';
+import { SDKCapability } from '../sdk/version';
 
 /**
  * Stricter version of vscode.DebugConfiguration intended to reduce the chances
@@ -38,7 +39,13 @@ export type MojoDebugConfiguration = {
   args?: string[];
   program?: string;
   mojoFile?: string;
+  /**
+   * The id of the test to debug through `mojo test`, e.g.
+   * `/path/test_file.mojo::test_function()`.
+   */
+  mojoTest?: string;
   env?: string[];
+  cwd?: string;
   enableAutoVariableSummaries?: boolean;
   commandEscapePrefix?: string;
   timeout?: number;
@@ -80,11 +87,14 @@ function envDictToList(dict: { [key: string]: string }): string[] {
 
 /**
  * Some debug configurations come from an RPC call, which have an explicit SDK
- * to use. We should honor it when running the debug session.
+ * to use. We should honor it when running the debug session. Otherwise, we use
+ * the SDK of the workspace folder containing the Mojo file being debugged, or
+ * the one the debug configuration belongs to.
  */
 async function findSDKForDebugConfiguration(
   config: MojoDebugConfiguration,
   envManager: PythonEnvironmentManager,
+  folder: Optional<vscode.WorkspaceFolder>,
 ): Promise<Optional<SDK>> {
   if (config.modularHomePath !== undefined) {
     return envManager.createSDKFromHomePath(
@@ -92,7 +102,11 @@ async function findSDKForDebugConfiguration(
       config.modularHomePath,
     );
   }
-  return envManager.getActiveSDK();
+
+  const fileFolder = config.mojoFile
+    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(config.mojoFile))
+    : undefined;
+  return envManager.getActiveSDK(fileFolder ?? folder);
 }
 /**
  * This class defines a factory used to find the lldb-vscode binary to use
@@ -116,6 +130,7 @@ class MojoDebugAdapterDescriptorFactory
     const sdk = await findSDKForDebugConfiguration(
       session.configuration,
       this.envManager,
+      session.workspaceFolder,
     );
 
     // We don't need to show error messages here because
@@ -124,6 +139,11 @@ class MojoDebugAdapterDescriptorFactory
       this.logger.error("Couldn't find an SDK for the debug session");
       return undefined;
     }
+    // The configuration resolver already reported the missing debugger tools.
+    if (!sdk.dapPath) {
+      this.logger.error('The SDK of the debug session has no debug adapter');
+      return undefined;
+    }
     this.logger.info(`Using the SDK ${sdk.version} for the debug session`);
 
     this.logger.debug('env', sdk.getProcessEnv());
@@ -171,17 +191,21 @@ class MojoDebugConfigurationResolver
   }
 
   async resolveDebugConfigurationWithSubstitutedVariables?(
-    _folder: Optional<vscode.WorkspaceFolder>,
+    folder: Optional<vscode.WorkspaceFolder>,
     debugConfiguration: MojoDebugConfiguration,
     _token?: vscode.CancellationToken,
   ): Promise<undefined | vscode.DebugConfiguration> {
     const sdk = await findSDKForDebugConfiguration(
       debugConfiguration,
       this.envManager,
+      folder,
     );
     // We don't need to show error messages here because
     // `findSDKConfigForDebugSession` does that.
-    if (!sdk) {
+    if (
+      !sdk ||
+      !(await this.envManager.checkFeature(sdk, SDKFeature.Debugger))
+    ) {
       return undefined;
     }
 
@@ -190,19 +214,12 @@ class MojoDebugConfigurationResolver
     }
 
     if (debugConfiguration.mojoFile) {
-      // Wheel environments do not ship a modular.cfg file that we can use to
-      // invoke 'mojo run' directly. They instead use a wrapper, which can't be
-      // launched under lldb. It's technically possible to launch the underlying
-      // binary directly, but without a modular.cfg file we would need to set a
-      // number of environment variables. We choose not to do that and instead
-      // just disallow debugging a specific file when the SDK is installed via a
-      // Python wheel.
-      if (!sdk.supportsFileDebug) {
+      if (!sdk.supports(SDKCapability.FileDebug)) {
         this.logger.error(
-          `Cannot launch debug session with mojoFile specified (was '${debugConfiguration.mojoFile}') because MAX was installed as a wheel.`,
+          `Cannot launch debug session with mojoFile specified (was '${debugConfiguration.mojoFile}') because Mojo ${sdk.parsedVersion} doesn't support it.`,
         );
         vscode.window.showErrorMessage(
-          "Debugging a Mojo file using the 'mojoFile' option is not supported when the Mojo SDK is installed as a wheel.",
+          `Debugging a Mojo file using the 'mojoFile' option is not supported by Mojo ${sdk.parsedVersion}.`,
         );
         return undefined;
       }
@@ -227,7 +244,33 @@ class MojoDebugConfigurationResolver
         debugConfiguration.mojoFile,
         ...(debugConfiguration.args || []),
       ];
-      debugConfiguration.program = sdk.mojoPath;
+    } else if (debugConfiguration.mojoTest) {
+      if (!sdk.supports(SDKCapability.FileDebug)) {
+        vscode.window.showErrorMessage(
+          `Debugging a Mojo test is not supported by Mojo ${sdk.parsedVersion}.`,
+        );
+        return undefined;
+      }
+      debugConfiguration.args = [
+        'test',
+        '--no-optimization',
+        '--debug-level',
+        'full',
+        ...(debugConfiguration.buildArgs || []),
+        debugConfiguration.mojoTest,
+      ];
+    }
+
+    if (debugConfiguration.mojoFile || debugConfiguration.mojoTest) {
+      // Wheel environments run the driver through a wrapper, which can't be
+      // launched under lldb, so the raw driver is launched instead.
+      if (!sdk.debugDriverPath) {
+        const message = `Mojo Debug error: the SDK ${sdk.parsedVersion} doesn't provide a Mojo driver that can be launched under the debugger.`;
+        this.logger.error(message);
+        vscode.window.showErrorMessage(message);
+        return undefined;
+      }
+      debugConfiguration.program = sdk.debugDriverPath;
     }
 
     // We give preference to the init commands specified by the user.
@@ -279,9 +322,14 @@ class MojoDebugConfigurationResolver
       ...(debugConfiguration.initCommands || []),
     ];
 
-    // Pull in the additional visualizers within the lldb-visualizers dir.
-    if (await sdk.lldbHasPythonScriptingSupport()) {
-      const visualizersDir = sdk.visualizersPath;
+    // Pull in the additional visualizers within the lldb-visualizers dir. The
+    // debugger still works without them, only with less readable values.
+    const visualizersDir = sdk.visualizersPath;
+    if (!visualizersDir) {
+      this.logger.info(
+        'The SDK has no debugger visualizers; values will be displayed raw.',
+      );
+    } else if (await sdk.lldbHasPythonScriptingSupport()) {
       const visualizers = await vscode.workspace.fs.readDirectory(
         vscode.Uri.file(visualizersDir),
       );
@@ -293,7 +341,7 @@ class MojoDebugConfigurationResolver
 
     const env = [
       `LLDB_VSCODE_RIT_TIMEOUT_IN_MS=${initializationTimeoutSec * 1000}`, // runInTerminal initialization timeout.
-      ...envDictToList(sdk.getProcessEnv()),
+      ...envDictToList(sdk.getDebugProcessEnv()),
     ];
 
     debugConfiguration.env = [...env, ...(debugConfiguration.env || [])];
@@ -336,7 +384,7 @@ class MojoCudaGdbDebugConfigurationResolver
   }
 
   async resolveDebugConfigurationWithSubstitutedVariables?(
-    _folder: Optional<vscode.WorkspaceFolder>,
+    folder: Optional<vscode.WorkspaceFolder>,
     debugConfigIn: MojoCudaGdbDebugConfiguration,
     _token?: vscode.CancellationToken,
   ): Promise<undefined | vscode.DebugConfiguration> {
@@ -352,6 +400,7 @@ class MojoCudaGdbDebugConfigurationResolver
     const sdk = await findSDKForDebugConfiguration(
       debugConfigIn as vscode.DebugConfiguration,
       this.envManager,
+      folder,
     );
     // We don't need to show error messages here because
     // `findSDKConfigForDebugSession` does that.
@@ -236,7 +236,7 @@ export class InlineLocalVariablesProvider
     }
 
     const uri = vscode.Uri.file(path);
-    const lspServer = this.extension.lspManager?.lspClient;
+    const lspServer = this.extension.lspManager?.getClientForDocument(document);
 
     if (lspServer === undefined) {
       return [];
@@ -14,17 +14,35 @@
 import * as vscode from 'vscode';
 
 import { Logger, LogLevel } from './logging';
+import { Optional } from './types';
 import { MojoLSPManager } from './lsp/lsp';
+import * as config from './utils/config';
 import * as configWatcher from './utils/configWatcher';
 import { DisposableContext } from './utils/disposableContext';
 import { registerFormatter } from './formatter';
 import { activateRunCommands } from './commands/run';
+import { MojoTestManager } from './testing/testing';
+import { activateSDKCommands } from './commands/sdk';
+import { activateProjectCommands } from './commands/project';
 import { MojoDebugManager } from './debug/debug';
 import { MojoDecoratorManager } from './decorations';
 import { RpcServer } from './server/RpcServer';
 import { Mutex } from 'async-mutex';
 import { TelemetryReporter } from './telemetry';
-import { PythonEnvironmentManager } from './pyenv';
+import { PythonEnvironmentManager, SDKFileChange } from './pyenv';
+import { MojoSDKStatusBar } from './sdk/statusBar';
+import { MojoTaskProvider } from './tasks/tasks';
+
+/**
+ * Returns a key that identifies a file of the SDK of the given workspace folder.
+ * The same file may belong to the SDKs of several workspace folders.
+ */
+function getSDKPathKey(
+  workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  sdkPath: string,
+): string {
+  return `${workspaceFolder?.uri.toString() ?? ''}|${sdkPath}`;
+}
 
 /**
  * This class provides an entry point for the Mojo extension, managing the
@@ -37,6 +55,10 @@ export class MojoExtension extends DisposableContext {
   public pyenvManager?: PythonEnvironmentManager;
   private activateMutex = new Mutex();
   private reporter: TelemetryReporter;
+  /**
+   * The SDK file changes being handled, keyed by `getSDKPathKey`.
+   */
+  private watchedSDKPaths = new Set<string>();
 
   constructor(context: vscode.ExtensionContext, logger: Logger) {
     super();
@@ -68,16 +90,27 @@ Activating the Mojo Extension
       this.pyenvManager = new PythonEnvironmentManager(
         this.logger,
         this.reporter,
+        this.extensionContext.workspaceState,
       );
       this.pushSubscription(this.pyenvManager);
       await this.pyenvManager.init();
 
       this.pushSubscription(
         await configWatcher.activate({
-          settings: ['SDK.additionalSDKs'],
+          settings: ['SDK.additionalSDKs', 'SDK.env', 'testing.enabled'],
         }),
       );
 
+      // Offer a reload when the SDK of a workspace folder is upgraded.
+      this.pushSubscription(
+        this.pyenvManager.onDidChangeSDKFiles((change) =>
+          this.handleSDKFileChange(change),
+        ),
+      );
+      this.pushSubscription(
+        new vscode.Disposable(() => this.watchedSDKPaths.clear()),
+      );
+
       this.pushSubscription(
         vscode.commands.registerCommand('mojo.extension.restart', async () => {
           // Dispose and reactivate the context.
@@ -85,20 +118,21 @@ Activating the Mojo Extension
         }),
       );
 
+      // Initialize the SDK selection commands.
+      this.pushSubscription(activateSDKCommands(this.pyenvManager));
+      this.pushSubscription(new MojoSDKStatusBar(this.pyenvManager));
+
+      // Initialize the project commands.
+      this.pushSubscription(
+        activateProjectCommands(this.pyenvManager, this.logger),
+      );
+
       // Initialize the formatter.
       this.pushSubscription(registerFormatter(this.pyenvManager, this.logger));
 
       // Initialize the debugger support.
       this.pushSubscription(new MojoDebugManager(this, this.pyenvManager));
 
-      // Initialize the execution commands.
-      this.pushSubscription(
-        activateRunCommands(this.pyenvManager, this.extensionContext),
-      );
-
-      // Initialize the decorations.
-      this.pushSubscription(new MojoDecoratorManager());
-
       // Initialize the LSPs
       this.lspManager = new MojoLSPManager(
         this.pyenvManager,
@@ -109,6 +143,37 @@ Activating the Mojo Extension
       await this.lspManager.activate();
       this.pushSubscription(this.lspManager);
 
+      // Initialize the execution commands.
+      this.pushSubscription(
+        activateRunCommands(
+          this.pyenvManager,
+          this.extensionContext,
+          this.logger,
+          this.lspManager,
+        ),
+      );
+
+      // Initialize the test controller, which is opt-in.
+      if (
+        config.get<boolean>(
+          'testing.enabled',
+          /*workspaceFolder=*/ undefined,
+          false,
+        )
+      ) {
+        const testManager = new MojoTestManager(this.pyenvManager, this.logger);
+        await testManager.activate();
+        this.pushSubscription(testManager);
+      }
+
+      // Initialize the tasks.
+      this.pushSubscription(
+        new MojoTaskProvider(this.pyenvManager, this.logger),
+      );
+
+      // Initialize the decorations.
+      this.pushSubscription(new MojoDecoratorManager());
+
       this.logger.info('MojoContext activated.');
       this.pushSubscription(
         new vscode.Disposable(() => {
@@ -126,6 +191,33 @@ Activating the Mojo Extension
     });
   }
 
+  /**
+   * Reloads the SDK of the workspace folder whose SDK files changed, and prompts
+   * for a restart if its version changed, e.g. after the SDK was upgraded.
+   * Further changes to the same file of the same folder are ignored until then.
+   */
+  private async handleSDKFileChange(change: SDKFileChange) {
+    const key = getSDKPathKey(change.workspaceFolder, change.path);
+    if (this.watchedSDKPaths.has(key)) {
+      return;
+    }
+
+    this.watchedSDKPaths.add(key);
+    try {
+      const newSDK = await this.pyenvManager?.reloadActiveSDK(
+        change.workspaceFolder,
+      );
+      if (newSDK && newSDK.version !== change.sdk.version) {
+        await configWatcher.promptRestart(
+          'onSettingsChanged',
+          `The Mojo SDK has been upgraded from ${change.sdk.parsedVersion} to ${newSDK.parsedVersion}. Do you want to reload the extension?`,
+        );
+      }
+    } finally {
+      this.watchedSDKPaths.delete(key);
+    }
+  }
+
   override dispose() {
     this.logger.info('Disposing the extension.');
     super.dispose();
@@ -0,0 +1,86 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getFormatterBackend,
+  mapMojoFormatArgs,
+  withQuietArg,
+} from './formatter';
+import { Logger, LogLevel } from './logging';
+import { SDK, SDKKind } from './pyenv';
+
+suite('Formatter', () => {
+  test('should map mblack arguments to mojo format', () => {
+    assert.deepStrictEqual(
+      mapMojoFormatArgs(['-l', '100', '--line-length=80', '--quiet']),
+      { args: ['-l', '100', '--line-length=80', '--quiet'], unsupported: [] },
+    );
+    assert.deepStrictEqual(
+      mapMojoFormatArgs(['--skip-magic-trailing-comma', '--line-length', '90']),
+      {
+        args: ['--line-length', '90'],
+        unsupported: ['--skip-magic-trailing-comma'],
+      },
+    );
+  });
+
+  test('should add --quiet only once', () => {
+    assert.deepStrictEqual(withQuietArg(['-l', '100']), [
+      '--quiet',
+      '-l',
+      '100',
+    ]);
+    assert.deepStrictEqual(withQuietArg(['--quiet']), ['--quiet']);
+    assert.deepStrictEqual(withQuietArg(['-q', '-l', '100']), [
+      '-q',
+      '-l',
+      '100',
+    ]);
+  });
+
+  test('should fall back to mojo format when mblack is missing', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mojo-format-'));
+    try {
+      const mblackPath = path.join(root, 'mblack');
+      const logger = new Logger(LogLevel.None);
+      const sdk = new SDK(
+        logger,
+        SDKKind.Custom,
+        '25.4.0',
+        /*lspPath=*/ undefined,
+        mblackPath,
+        /*lldbPluginPath=*/ undefined,
+        /*dapPath=*/ undefined,
+        path.join(root, 'mojo'),
+        /*visualizersPath=*/ undefined,
+        /*lldbPath=*/ undefined,
+      );
+      assert.strictEqual(
+        (await getFormatterBackend(sdk, logger)).name,
+        'mojo format',
+      );
+
+      fs.writeFileSync(mblackPath, '');
+      assert.strictEqual(
+        (await getFormatterBackend(sdk, logger)).name,
+        'mblack',
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -15,13 +15,129 @@ import { execFile } from 'child_process';
 import * as vscode from 'vscode';
 
 import { get } from './utils/config';
-import { PythonEnvironmentManager } from './pyenv';
+import { PythonEnvironmentManager, SDK, SDKFeature } from './pyenv';
 import { Logger } from './logging';
+import { fileExists } from './utils/files';
+
+/**
+ * A program formatting Mojo code.
+ */
+export interface FormatterBackend {
+  name: string;
+  command: string;
+  /**
+   * Returns the full argument list of the program, given the arguments of the
+   * `mojo.formatting.args` setting and the path to format, where `-` stands
+   * for stdin.
+   */
+  getArgs(userArgs: string[], target?: string): string[];
+}
+
+/**
+ * The options of `mblack` that `mojo format` also accepts, along with whether
+ * they take a value as a separate argument.
+ */
+const MOJO_FORMAT_OPTIONS: Record<string, boolean> = {
+  '-l': true,
+  '--line-length': true,
+  '-q': false,
+  '--quiet': false,
+};
+
+/**
+ * Maps the given `mblack` arguments to `mojo format` ones. Resolves to the
+ * mapped arguments and to the arguments that `mojo format` doesn't support,
+ * which are dropped.
+ */
+export function mapMojoFormatArgs(userArgs: string[]): {
+  args: string[];
+  unsupported: string[];
+} {
+  const args: string[] = [];
+  const unsupported: string[] = [];
+  for (let i = 0; i < userArgs.length; i++) {
+    const arg = userArgs[i];
+    const [name] = arg.split('=', 1);
+    if (!(name in MOJO_FORMAT_OPTIONS)) {
+      unsupported.push(arg);
+      continue;
+    }
+
+    args.push(arg);
+    if (MOJO_FORMAT_OPTIONS[name] && name === arg && i + 1 < userArgs.length) {
+      args.push(userArgs[++i]);
+    }
+  }
+  return { args, unsupported };
+}
+
+/**
+ * Adds `--quiet` to the given formatter arguments, unless they already include
+ * it.
+ */
+export function withQuietArg(args: string[]): string[] {
+  return args.includes('-q') || args.includes('--quiet')
+    ? args
+    : ['--quiet', ...args];
+}
+
+/**
+ * The SDKs already reported as not shipping `mblack`.
+ */
+const reportedMissingMblack = new WeakSet<SDK>();
+
+/**
+ * Returns the backend formatting code with the given SDK: `mblack` if the SDK
+ * ships it and it exists on disk, or the `mojo format` subcommand of newer SDKs
+ * otherwise. The SDK must provide the formatter feature.
+ */
+export async function getFormatterBackend(
+  sdk: SDK,
+  logger: Logger,
+): Promise<FormatterBackend> {
+  if (sdk.mblackPath && (await fileExists(sdk.mblackPath))) {
+    return {
+      name: 'mblack',
+      command: sdk.mblackPath,
+      getArgs: (userArgs, target = '-') => [
+        '--fast',
+        '--preview',
+        '-t',
+        'mojo',
+        ...withQuietArg(userArgs),
+        target,
+      ],
+    };
+  }
+
+  if (!reportedMissingMblack.has(sdk)) {
+    reportedMissingMblack.add(sdk);
+    logger.warn(
+      `mblack not found in the SDK ${sdk.parsedVersion}, using 'mojo format' instead.`,
+    );
+  }
+  return {
+    name: 'mojo format',
+    command: sdk.mojoPath,
+    getArgs: (userArgs, target = '-') => {
+      const { args, unsupported } = mapMojoFormatArgs(userArgs);
+      if (unsupported.length > 0) {
+        logger.warn(
+          `Ignoring the formatting arguments not supported by 'mojo format': ${unsupported.join(' ')}`,
+        );
+      }
+      return ['format', ...withQuietArg(args), target];
+    },
+  };
+}
 
 export function registerFormatter(
   envManager: PythonEnvironmentManager,
   logger: Logger,
 ) {
+  // The backend chosen for each SDK, so that the choice is only logged once.
+  const backends = new WeakMap<SDK, FormatterBackend>();
+
   return vscode.languages.registerDocumentFormattingEditProvider('mojo', {
     async provideDocumentFormattingEdits(document, _options) {
       const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
@@ -29,24 +145,35 @@ export function registerFormatter(
       const cwd = workspaceFolder?.uri?.fsPath || backupFolder?.uri.fsPath;
       const args = get<string[]>('formatting.args', workspaceFolder, []);
 
-      const sdk = await envManager.getActiveSDK();
+      const sdk = await envManager.getActiveSDK(workspaceFolder);
 
-      if (!sdk) {
+      if (!sdk || !(await envManager.checkFeature(sdk, SDKFeature.Formatter))) {
         return [];
       }
 
+      let backend = backends.get(sdk);
+      if (!backend) {
+        backend = await getFormatterBackend(sdk, logger);
+        backends.set(sdk, backend);
+        logger.info(
+          `Formatting with ${backend.name} from the SDK ${sdk.parsedVersion} (${backend.command}).`,
+        );
+      }
+      const { command, name } = backend;
+      const backendArgs = backend.getArgs(args);
+
       return new Promise<vscode.TextEdit[]>(function (resolve, reject) {
         const originalDocumentText = document.getText();
         const process = execFile(
-          sdk.mblackPath,
-          ['--fast', '--preview', '--quiet', '-t', 'mojo', ...args, '-'],
+          command,
+          backendArgs,
           { cwd, env: sdk.getProcessEnv() },
           (error, stdout, stderr) => {
             // Process any errors/warnings during formatting. These aren't all
             // necessarily fatal, so this doesn't prevent edits from being
             // applied.
             if (error) {
-              logger.error(`Formatting error:\n${stderr}`);
+              logger.error(`Formatting error (${name}):\n${stderr}`);
               reject(error);
               return;
             }
@@ -22,8 +22,10 @@ import { Logger } from '../logging';
 import { TelemetryReporter } from '../telemetry';
 import { LSPRecorder } from './recorder';
 import { Optional } from '../types';
-import { PythonEnvironmentManager, SDK } from '../pyenv';
+import { PythonEnvironmentManager, SDK, SDKFeature } from '../pyenv';
 import path from 'path';
+import { Mutex } from 'async-mutex';
+import { escapeGlob } from '../utils/files';
 
 /**
  * This type represents the initialization options send by the extension to the
@@ -44,13 +46,84 @@ export interface InitializationOptions {
   serverEnv: { [env: string]: Optional<string> };
 }
 
+/**
+ * A language client together with the documents it serves. Each client is
+ * backed by a distinct SDK.
+ */
+interface LanguageClientEntry {
+  sdk: SDK;
+  client: vscodelc.LanguageClient;
+  /**
+   * The keys of the workspace folders served by this client.
+   */
+  folders: Set<string>;
+  /**
+   * The URIs of the documents outside of any workspace folder served by this
+   * client.
+   */
+  files: Set<string>;
+  /**
+   * Whether this client serves every Mojo document. This is the case when a
+   * single SDK is in use.
+   */
+  servesAll: boolean;
+  /**
+   * The watchers notifying the client of file changes, disposed together with
+   * it.
+   */
+  fileWatchers: vscode.FileSystemWatcher[];
+}
+
+/**
+ * The files whose changes are reported to the language servers.
+ */
+const MOJO_FILES_GLOB = '**/*.{mojo,🔥,ipynb}';
+
+/**
+ * Returns a key that identifies the language server launched for the given SDK.
+ */
+function getSDKKey(sdk: SDK): string {
+  return `${sdk.lspPath}|${JSON.stringify(sdk.getProcessEnv())}`;
+}
+
+/**
+ * Returns the workspace folder the given document belongs to. Notebook cells
+ * belong to the workspace folder of their notebook.
+ */
+function getDocumentFolder(
+  doc: vscode.TextDocument,
+): Optional<vscode.WorkspaceFolder> {
+  const uri =
+    doc.uri.scheme === 'vscode-notebook-cell'
+      ? doc.uri.with({ scheme: 'file', fragment: '' })
+      : doc.uri;
+  return vscode.workspace.getWorkspaceFolder(uri);
+}
+
+/**
+ * Returns the key of the given workspace folder, or an empty string for the
+ * documents outside of any workspace folder.
+ */
+function getFolderKey(folder: Optional<vscode.WorkspaceFolder>): string {
+  return folder?.uri.toString() ?? '';
+}
+
 /**
  *  This class manages the LSP clients.
  */
 export class MojoLSPManager extends DisposableContext {
   private extensionContext: vscode.ExtensionContext;
   private envManager: PythonEnvironmentManager;
-  public lspClient: Optional<vscodelc.LanguageClient>;
+  /**
+   * The running language clients, keyed by `getSDKKey`.
+   */
+  private clients = new Map<string, LanguageClientEntry>();
+  /**
+   * The SDK key resolved for every workspace folder that had a Mojo document
+   * opened, keyed by `getFolderKey`.
+   */
+  private folderSDKKeys = new Map<string, string>();
+  private clientsMutex = new Mutex();
   public lspClientChanges = new Subject<Optional<vscodelc.LanguageClient>>();
   private logger: Logger;
   private reporter: TelemetryReporter;
@@ -75,13 +148,10 @@ export class MojoLSPManager extends DisposableContext {
   async activate() {
     this.pushSubscription(
       vscode.commands.registerCommand('mojo.lsp.restart', async () => {
-        // Wait for the language server to stop. This allows a graceful shutdown of the server instead of simply terminating the process, which is important for tracing.
-        if (this.lspClient) {
-          await this.lspClient.stop();
-        }
+        // Wait for the language servers to stop. This allows a graceful shutdown of the server instead of simply terminating the process, which is important for tracing.
+        await this.stopLanguageClients();
 
         this.dispose();
-        this.lspClient = undefined;
         await this.activate();
       }),
     );
@@ -92,14 +162,11 @@ export class MojoLSPManager extends DisposableContext {
     ) {
       this.pushSubscription(
         vscode.commands.registerCommand('mojo.lsp.debug', async () => {
-          if (this.lspClient) {
-            await this.lspClient.stop();
-          }
+          await this.stopLanguageClients();
 
           this.attachDebugger = true;
 
           this.dispose();
-          this.lspClient = undefined;
           await this.activate();
         }),
       );
@@ -108,11 +175,12 @@ export class MojoLSPManager extends DisposableContext {
         vscode.commands.registerTextEditorCommand(
           'mojo.lsp.dumpParsedIR',
           async (textEditor) => {
-            if (!this.lspClient) {
+            const lspClient = this.getClientForDocument(textEditor.document);
+            if (!lspClient) {
               return;
             }
 
-            await this.lspClient.sendNotification('mojo/emitParsedIR', {
+            await lspClient.sendNotification('mojo/emitParsedIR', {
               uri: textEditor.document.uri.toString(),
             });
           },
@@ -187,6 +255,16 @@ export class MojoLSPManager extends DisposableContext {
       }),
     );
 
+    this.pushSubscription(
+      new vscode.Disposable(() => {
+        for (const entry of this.clients.values()) {
+          this.disposeLanguageClient(entry);
+        }
+        this.clients.clear();
+        this.folderSDKKeys.clear();
+      }),
+    );
+
     vscode.workspace.textDocuments.forEach((doc) =>
       this.tryStartLanguageClient(doc),
     );
@@ -204,45 +282,221 @@ export class MojoLSPManager extends DisposableContext {
     );
   }
 
+  /**
+   * The language client serving the active editor, or any running client if
+   * the active editor is not served by one.
+   */
+  get lspClient(): Optional<vscodelc.LanguageClient> {
+    const activeDoc = vscode.window.activeTextEditor?.document;
+    const activeClient = activeDoc && this.getClientForDocument(activeDoc);
+    return activeClient ?? this.clients.values().next().value?.client;
+  }
+
+  /**
+   * Returns the language client serving the given document, if any.
+   */
+  getClientForDocument(
+    doc: vscode.TextDocument,
+  ): Optional<vscodelc.LanguageClient> {
+    const folderKey = getFolderKey(getDocumentFolder(doc));
+    for (const entry of this.clients.values()) {
+      if (
+        entry.servesAll ||
+        entry.folders.has(folderKey) ||
+        entry.files.has(doc.uri.toString())
+      ) {
+        return entry.client;
+      }
+    }
+    return undefined;
+  }
+
   async tryStartLanguageClient(doc: vscode.TextDocument): Promise<void> {
     if (doc.languageId !== 'mojo') {
       return;
     }
 
-    const sdk = await this.envManager.getActiveSDK();
+    await this.clientsMutex.runExclusive(async () => {
+      const folder = getDocumentFolder(doc);
+      const folderKey = getFolderKey(folder);
+      let sdkKey = this.folderSDKKeys.get(folderKey);
+      let sdk = sdkKey ? this.clients.get(sdkKey)?.sdk : undefined;
+
+      if (!sdkKey || !sdk) {
+        sdk = await this.envManager.getActiveSDK(folder);
+
+        if (
+          !sdk ||
+          !(await this.envManager.checkFeature(sdk, SDKFeature.LanguageServer))
+        ) {
+          return;
+        }
+        sdkKey = getSDKKey(sdk);
+        this.folderSDKKeys.set(folderKey, sdkKey);
+      }
+
+      const sdkCount = new Set(this.folderSDKKeys.values()).size;
+      const entry = this.clients.get(sdkKey);
+      if (
+        entry &&
+        (sdkCount === 1 ||
+          entry.folders.has(folderKey) ||
+          entry.files.has(doc.uri.toString()))
+      ) {
+        return;
+      }
+
+      this.startLanguageClient(sdkKey, sdk);
+
+      // A client that was serving every document must be restarted so that it
+      // only serves its own documents now that several SDKs are in use.
+      if (sdkCount > 1) {
+        for (const [otherKey, otherEntry] of this.clients) {
+          if (otherEntry.servesAll) {
+            this.startLanguageClient(otherKey, otherEntry.sdk);
+          }
+        }
+      }
+    });
+  }
 
-    if (!sdk) {
+  /**
+   * Start a language client for the given SDK, replacing the existing one if
+   * any, so that it serves every document resolved to that SDK so far.
+   */
+  private startLanguageClient(sdkKey: string, sdk: SDK) {
+    if (!sdk.lspPath) {
+      this.logger.lsp.error(
+        `The Mojo SDK of '${sdk.mojoPath}' doesn't provide a language server.`,
+      );
       return;
     }
 
-    if (this.lspClient !== undefined) {
-      return;
+    const previousEntry = this.clients.get(sdkKey);
+    if (previousEntry) {
+      this.logger.lsp.info(
+        'Restarting language client to serve additional documents',
+      );
+      this.disposeLanguageClient(previousEntry);
+    }
+
+    const folders = new Set<string>();
+    for (const [folderKey, key] of this.folderSDKKeys) {
+      if (key === sdkKey) {
+        folders.add(folderKey);
+      }
+    }
+
+    // Documents outside of any workspace folder can't be described with a
+    // glob pattern, so each of them is listed explicitly.
+    const files = new Set<string>();
+    if (folders.has('')) {
+      folders.delete('');
+      for (const doc of vscode.workspace.textDocuments) {
+        if (doc.languageId === 'mojo' && !getDocumentFolder(doc)) {
+          files.add(doc.uri.toString());
+        }
+      }
     }
 
+    const servesAll = new Set(this.folderSDKKeys.values()).size === 1;
     const includeDirs = config.get<string[]>(
       'lsp.includeDirs',
       /*workspaceFolder=*/ undefined,
       [],
     );
-    const lspClient = this.activateLanguageClient(sdk, includeDirs);
-    this.lspClient = lspClient;
+    const workspaceFolders = Array.from(folders)
+      .map((folderKey) =>
+        vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(folderKey)),
+      )
+      .filter((folder): folder is vscode.WorkspaceFolder => !!folder);
+    // A client serving a subset of the documents is only notified of the
+    // changes in its own workspace folders.
+    const fileWatchers = servesAll
+      ? [vscode.workspace.createFileSystemWatcher(MOJO_FILES_GLOB)]
+      : workspaceFolders.map((folder) =>
+          vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(folder, MOJO_FILES_GLOB),
+          ),
+        );
+    const lspClient = this.activateLanguageClient(
+      sdk,
+      sdk.lspPath,
+      includeDirs,
+      fileWatchers,
+      servesAll
+        ? undefined
+        : this.getDocumentSelector(workspaceFolders, files, sdkKey),
+    );
+    this.clients.set(sdkKey, {
+      sdk,
+      client: lspClient,
+      folders,
+      files,
+      servesAll,
+      fileWatchers,
+    });
     this.lspClientChanges.next(lspClient);
-    this.pushSubscription(
-      new vscode.Disposable(() => {
-        lspClient.stop();
-        lspClient.dispose();
-        this.lspClientChanges.next(undefined);
-        this.lspClientChanges.unsubscribe();
-      }),
+  }
+
+  /**
+   * Returns a document selector matching the Mojo documents in the given
+   * workspace folders and files.
+   */
+  private getDocumentSelector(
+    folders: vscode.WorkspaceFolder[],
+    files: Set<string>,
+    sdkKey: string,
+  ): vscodelc.DocumentSelector {
+    const selector: vscodelc.DocumentFilter[] = [];
+
+    for (const folder of folders) {
+      selector.push({
+        language: 'mojo',
+        pattern: `${escapeGlob(folder.uri.fsPath)}/${MOJO_FILES_GLOB}`,
+      });
+    }
+
+    for (const file of files) {
+      const uri = vscode.Uri.parse(file);
+      selector.push(
+        uri.scheme === 'file'
+          ? { language: 'mojo', pattern: uri.fsPath }
+          : { language: 'mojo', scheme: uri.scheme },
+      );
+    }
+
+    // Untitled documents don't belong to any workspace folder.
+    if (this.folderSDKKeys.get('') === sdkKey) {
+      selector.push({ language: 'mojo', scheme: 'untitled' });
+    }
+    return selector;
+  }
+
+  private async stopLanguageClients() {
+    await Promise.all(
+      Array.from(this.clients.values()).map((entry) => entry.client.stop()),
     );
   }
 
+  private disposeLanguageClient(entry: LanguageClientEntry) {
+    entry.client.stop();
+    entry.client.dispose();
+    for (const fileWatcher of entry.fileWatchers) {
+      fileWatcher.dispose();
+    }
+    this.lspClientChanges.next(undefined);
+  }
+
   /**
    * Create a new language server.
    */
   activateLanguageClient(
     sdk: SDK,
+    serverPath: string,
     includeDirs: string[],
+    fileWatchers: vscode.FileSystemWatcher[],
+    documentSelector?: vscodelc.DocumentSelector,
   ): vscodelc.LanguageClient {
     this.logger.lsp.info('Activating language client');
 
@@ -259,7 +513,7 @@ export class MojoLSPManager extends DisposableContext {
     const initializationOptions: InitializationOptions = {
       serverArgs: serverArgs,
       serverEnv: sdk.getProcessEnv(),
-      serverPath: sdk.lspPath,
+      serverPath,
     };
 
     const module = this.extensionContext.asAbsolutePath(
@@ -275,16 +529,10 @@ export class MojoLSPManager extends DisposableContext {
 
     // Configure the client options.
     const clientOptions: vscodelc.LanguageClientOptions = {
-      // The current selection mechanism indicates all documents to be served
-      // by the same single LSP Server. This wouldn't work if at some point
-      // we support multiple SDKs running at once, for which we'd need a more
-      // flexible way to manage LSP Servers than `vscodelc`. Two options might
-      // be feasible:
-      // - Fork/contribute `vscodelc` and allow for a more customizable selection logic.
-      // - Do the selection within the proxy, which would be "easy" to implement
-      //   if the proxy is restarted with the new correct info whenever a new SDK is
-      //   identified.
-      documentSelector: [
+      // When a single SDK is in use, all documents are served by the same LSP
+      // server. Otherwise, each server is given the documents of the workspace
+      // folders that resolved to its SDK.
+      documentSelector: documentSelector ?? [
         {
           language: 'mojo',
         },
@@ -296,9 +544,7 @@ export class MojoLSPManager extends DisposableContext {
       synchronize: {
         // Notify the server about file changes following the given file
         // pattern.
-        fileEvents: vscode.workspace.createFileSystemWatcher(
-          '**/*.{mojo,🔥,ipynb}',
-        ),
+        fileEvents: fileWatchers,
       },
       outputChannel: this.logger.lsp.outputChannel,
 
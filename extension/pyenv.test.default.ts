@@ -0,0 +1,119 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Logger, LogLevel } from './logging';
+import { PythonEnvironmentManager, SDK, SDKFileChange, SDKKind } from './pyenv';
+import { TelemetryReporter } from './telemetry';
+import { Optional } from './types';
+
+suite('SDK cache', () => {
+  let root: string;
+  let mojoPath: string;
+  let manager: PythonEnvironmentManager;
+  let loads: number;
+
+  // Makes the manager load SDKs with the given function, counting the loads.
+  function mockLoad(load: () => Promise<Optional<SDK>>) {
+    (manager as any).loadActiveSDK = () => {
+      loads++;
+      return load();
+    };
+  }
+
+  function createSDK(): SDK {
+    return new SDK(
+      new Logger(LogLevel.None),
+      SDKKind.Custom,
+      '25.4.0',
+      /*lspPath=*/ undefined,
+      /*mblackPath=*/ undefined,
+      /*lldbPluginPath=*/ undefined,
+      /*dapPath=*/ undefined,
+      mojoPath,
+      /*visualizersPath=*/ undefined,
+      /*lldbPath=*/ undefined,
+    );
+  }
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mojo-sdk-'));
+    mojoPath = path.join(root, 'mojo');
+    fs.writeFileSync(mojoPath, '');
+    manager = new PythonEnvironmentManager(
+      new Logger(LogLevel.None),
+      new TelemetryReporter(),
+      {
+        keys: () => [],
+        get: () => undefined,
+        update: async () => {},
+      } as vscode.Memento,
+    );
+    loads = 0;
+  });
+
+  teardown(() => {
+    manager.dispose();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should reuse the loaded SDK', async () => {
+    const sdk = createSDK();
+    mockLoad(async () => sdk);
+
+    assert.strictEqual(await manager.getActiveSDK(), sdk);
+    assert.strictEqual(await manager.getActiveSDK(), sdk);
+    assert.strictEqual(loads, 1);
+  });
+
+  test('should reload the SDK when its files change', async () => {
+    const sdk = createSDK();
+    mockLoad(async () => sdk);
+    assert.strictEqual(await manager.getActiveSDK(), sdk);
+
+    const change = new Promise<SDKFileChange>((resolve) => {
+      const subscription = manager.onDidChangeSDKFiles((event) => {
+        subscription.dispose();
+        resolve(event);
+      });
+    });
+    // Give the watcher time to start before changing the file.
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    fs.writeFileSync(mojoPath, 'upgraded');
+
+    const event = await change;
+    assert.strictEqual(event.sdk, sdk);
+    assert.strictEqual(event.path, mojoPath);
+    await manager.getActiveSDK();
+    assert.strictEqual(loads, 2);
+  });
+
+  test('should not cache failed loads', async () => {
+    mockLoad(async () => {
+      throw new Error('unable to run mojo --version');
+    });
+    await assert.rejects(manager.getActiveSDK());
+
+    mockLoad(async () => undefined);
+    assert.strictEqual(await manager.getActiveSDK(), undefined);
+
+    const sdk = createSDK();
+    mockLoad(async () => sdk);
+    assert.strictEqual(await manager.getActiveSDK(), sdk);
+    assert.strictEqual(loads, 3);
+  });
+});
@@ -12,10 +12,10 @@
 //===----------------------------------------------------------------------===//
 
 import * as vscode from 'vscode';
+import * as chokidar from 'chokidar';
 import * as ini from 'ini';
 import { DisposableContext } from './utils/disposableContext';
 import { PythonExtension, ResolvedEnvironment } from '@vscode/python-extension';
-import assert from 'assert';
 import { Logger } from './logging';
 import path from 'path';
 import * as util from 'util';
@@ -25,7 +25,18 @@ import {
 } from 'child_process';
 import { Memoize } from 'typescript-memoize';
 import { TelemetryReporter } from './telemetry';
-import { fileExists } from './utils/files';
+import { directoryExists, fileExists } from './utils/files';
+import * as config from './utils/config';
+import { substituteVariables } from './utils/vscodeVariables';
+import { Optional } from './types';
+import {
+  DiscoveredEnvironment,
+  discoverEnvironments,
+  getPrefixHomePath,
+} from './sdk/discovery';
+import { hasCapability, SDKCapability, SDKVersion } from './sdk/version';
+import { SDKError, SDKErrorKind, showSDKError } from './sdk/errors';
+import { locateWheelTools, queryWheelEnvironment } from './sdk/wheel';
 const execFile = util.promisify(callbackExecFile);
 const exec = util.promisify(callbackExec);
 
@@ -35,9 +46,23 @@ export enum SDKKind {
   Internal = 'internal',
 }
 
+/// A feature of the extension that relies on tools of the SDK. Each feature is
+/// enabled on its own, so that an SDK missing the tools of one of them, e.g. a
+/// minimal installation, still provides the others.
+export enum SDKFeature {
+  LanguageServer = 'language server',
+  Formatter = 'formatter',
+  Debugger = 'debugger',
+  Testing = 'test runner',
+}
+
 /// Represents a usable instance of the MAX SDK.
 export class SDK {
-  public readonly supportsFileDebug: boolean = false;
+  /// The parsed version of the SDK.
+  public readonly parsedVersion: SDKVersion;
+  /// The workspace folder this SDK was loaded for, used to resolve the
+  /// resource-scoped `mojo.SDK.env` setting.
+  public workspaceFolder: Optional<vscode.WorkspaceFolder>;
 
   constructor(
     private logger: Logger,
@@ -45,25 +70,74 @@ export class SDK {
     readonly kind: SDKKind,
     /// The unparsed version string of the SDK.
     readonly version: string,
-    /// The path to the language server executable.
-    readonly lspPath: string,
-    /// The path to the mblack executable.
-    readonly mblackPath: string,
-    /// The path to the Mojo LLDB plugin.
-    readonly lldbPluginPath: string,
-    /// The path to the DAP server executable.
-    readonly dapPath: string,
-    /// The path to the Mojo executable.
+    /// The path to the language server executable, if provided.
+    readonly lspPath: Optional<string>,
+    /// The path to the mblack executable, if provided.
+    readonly mblackPath: Optional<string>,
+    /// The path to the Mojo LLDB plugin, if provided.
+    readonly lldbPluginPath: Optional<string>,
+    /// The path to the DAP server executable, if provided.
+    readonly dapPath: Optional<string>,
+    /// The path to the Mojo executable. This is the only tool every SDK must
+    /// provide.
     readonly mojoPath: string,
-    /// The path to the directory containing LLDB debug visualizers.
-    readonly visualizersPath: string,
-    /// The path to the LLDB executor.
-    readonly lldbPath: string,
-  ) {}
+    /// The path to the directory containing LLDB debug visualizers, if
+    /// provided.
+    readonly visualizersPath: Optional<string>,
+    /// The path to the LLDB executor, if provided.
+    readonly lldbPath: Optional<string>,
+  ) {
+    this.parsedVersion = SDKVersion.parse(version);
+  }
+
+  /// Checks if this SDK provides the given capability.
+  public supports(capability: SDKCapability): boolean {
+    return hasCapability(capability, this.parsedVersion);
+  }
+
+  /// Lists the tools the given feature requires, as pairs of a tool name and
+  /// its path in this SDK.
+  private getFeatureTools(feature: SDKFeature): [string, Optional<string>][] {
+    switch (feature) {
+      case SDKFeature.LanguageServer:
+        return [['mojo-lsp-server', this.lspPath]];
+      case SDKFeature.Formatter:
+        // Newer SDKs format through the driver, and only use mblack when it
+        // is shipped and present on disk.
+        return this.supports(SDKCapability.MojoFormat)
+          ? [['mojo', this.mojoPath]]
+          : [['mblack', this.mblackPath]];
+      case SDKFeature.Debugger:
+        return [
+          ['lldb-dap', this.dapPath],
+          ['the Mojo LLDB plugin', this.lldbPluginPath],
+        ];
+      case SDKFeature.Testing:
+        return [['mojo', this.mojoPath]];
+    }
+  }
+
+  /// Gets the names of the tools required by the given feature that this SDK
+  /// doesn't provide, or that are missing from the disk. The feature can be
+  /// used if there are none.
+  public async getMissingTools(feature: SDKFeature): Promise<string[]> {
+    const missingTools = [];
+    for (const [name, toolPath] of this.getFeatureTools(feature)) {
+      if (!toolPath || !(await fileExists(toolPath))) {
+        missingTools.push(name);
+      }
+    }
+    return missingTools;
+  }
 
   @Memoize()
   /// Checks if the version of LLDB shipped with this SDK supports Python scripting.
   public async lldbHasPythonScriptingSupport(): Promise<boolean> {
+    if (!this.lldbPath) {
+      this.logger.info('Python scripting support in LLDB not found: no LLDB.');
+      return false;
+    }
+
     try {
       let { stdout, stderr } = await execFile(this.lldbPath, [
         '-b',
@@ -92,29 +166,68 @@ export class SDK {
     return false;
   }
 
-  /// Gets an appropriate environment to spawn subprocesses from this SDK.
-  public getProcessEnv(withTelemetry: boolean = true) {
+  /// Gets the variables this SDK sets in the environment of its subprocesses.
+  protected getSDKEnv(withTelemetry: boolean): Record<string, string> {
     return {
       MODULAR_TELEMETRY_ENABLED: withTelemetry ? 'true' : 'false',
     };
   }
+
+  /// Gets the variables added or overridden by the `mojo.SDK.env` setting,
+  /// with VS Code variables substituted.
+  protected getUserEnv(): Record<string, string> {
+    const userEnv = config.get<Record<string, string>>(
+      'SDK.env',
+      this.workspaceFolder,
+      {},
+    );
+    const env: Record<string, string> = {};
+    for (const [name, value] of Object.entries(userEnv)) {
+      env[name] = substituteVariables(value, this.workspaceFolder);
+    }
+    return env;
+  }
+
+  /// Gets an appropriate environment to spawn subprocesses from this SDK.
+  public getProcessEnv(withTelemetry: boolean = true): Record<string, string> {
+    return {
+      ...this.getSDKEnv(withTelemetry),
+      ...this.getUserEnv(),
+    };
+  }
+
+  /// The path to the Mojo driver to launch under the debugger, if provided.
+  public get debugDriverPath(): Optional<string> {
+    return this.mojoPath;
+  }
+
+  /// Gets an appropriate environment to launch `debugDriverPath` under the
+  /// debugger.
+  public getDebugProcessEnv(
+    withTelemetry: boolean = true,
+  ): Record<string, string> {
+    return this.getProcessEnv(withTelemetry);
+  }
+
+  /// The path to the modular.cfg file describing this SDK, if it has one.
+  public get modularCfgPath(): Optional<string> {
+    return undefined;
+  }
 }
 
 class HomeSDK extends SDK {
-  public override readonly supportsFileDebug: boolean = true;
-
   constructor(
     logger: Logger,
     kind: SDKKind,
     version: string,
     private homePath: string,
-    lspPath: string,
-    mblackPath: string,
-    lldbPluginPath: string,
-    dapPath: string,
+    lspPath: Optional<string>,
+    mblackPath: Optional<string>,
+    lldbPluginPath: Optional<string>,
+    dapPath: Optional<string>,
     mojoPath: string,
-    visualizersPath: string,
-    lldbPath: string,
+    visualizersPath: Optional<string>,
+    lldbPath: Optional<string>,
     private prefixPath?: string,
   ) {
     super(
@@ -131,78 +244,625 @@ class HomeSDK extends SDK {
     );
   }
 
-  public override getProcessEnv(withTelemetry: boolean = true) {
+  protected override getSDKEnv(withTelemetry: boolean): Record<string, string> {
     return {
-      ...super.getProcessEnv(withTelemetry),
+      ...super.getSDKEnv(withTelemetry),
       MODULAR_HOME: this.homePath,
       // HACK: Set CONDA_PREFIX to allow debugger wrappers to work
-      CONDA_PREFIX: this.prefixPath,
+      ...(this.prefixPath ? { CONDA_PREFIX: this.prefixPath } : {}),
     };
   }
+
+  public override get modularCfgPath(): Optional<string> {
+    return path.join(this.homePath, 'modular.cfg');
+  }
+}
+
+/// An SDK installed from the `modular` Python wheel. Its `mojo` executable is a
+/// wrapper that configures the raw driver through environment variables, which
+/// can't be launched under lldb.
+class WheelSDK extends SDK {
+  constructor(
+    logger: Logger,
+    version: string,
+    lspPath: Optional<string>,
+    mblackPath: Optional<string>,
+    lldbPluginPath: Optional<string>,
+    dapPath: Optional<string>,
+    mojoPath: string,
+    visualizersPath: Optional<string>,
+    lldbPath: Optional<string>,
+    /// The path to the raw driver wrapped by `mojoPath`, if provided.
+    private rawMojoPath: Optional<string>,
+    /// The environment variables the wrapper sets for the raw driver.
+    private driverEnv: Record<string, string>,
+  ) {
+    super(
+      logger,
+      SDKKind.Environment,
+      version,
+      lspPath,
+      mblackPath,
+      lldbPluginPath,
+      dapPath,
+      mojoPath,
+      visualizersPath,
+      lldbPath,
+    );
+  }
+
+  public override get debugDriverPath(): Optional<string> {
+    return this.rawMojoPath;
+  }
+
+  public override getDebugProcessEnv(
+    withTelemetry: boolean = true,
+  ): Record<string, string> {
+    return {
+      ...this.getSDKEnv(withTelemetry),
+      ...this.driverEnv,
+      ...this.getUserEnv(),
+    };
+  }
+}
+
+/// Describes an SDK that can be explicitly selected by the user.
+export interface SDKCandidate {
+  /// A stable identifier for this candidate, used to persist the selection.
+  readonly id: string;
+  /// What kind of SDK this candidate provides.
+  readonly kind: SDKKind;
+  /// A short human-readable description of where this candidate comes from.
+  readonly description: string;
+  /// Why this candidate can't be loaded, if known without loading it, e.g. a
+  /// missing modular.cfg file, or from the last failed attempt to load it.
+  readonly error?: string;
+  /// Loads the SDK, resolving to undefined if it can't be loaded.
+  load(): Promise<Optional<SDK>>;
+}
+
+/// An SDK loaded for a workspace folder, along with the watcher of its files.
+interface CachedSDK {
+  readonly sdk: Promise<Optional<SDK>>;
+  watcher?: vscode.Disposable;
+}
+
+/// A file of an SDK loaded for a workspace folder that changed on disk.
+export interface SDKFileChange {
+  readonly workspaceFolder: Optional<vscode.WorkspaceFolder>;
+  readonly sdk: SDK;
+  readonly path: string;
+}
+
+/// The id of the Python extension, used as an optional source of environments.
+const PYTHON_EXTENSION_ID = 'ms-python.python';
+
+/// The prefix of the keys used to persist the selected SDK of each workspace
+/// folder in the workspace state.
+const SELECTED_SDK_KEY = 'sdk.selected';
+
+/// Returns a key that identifies the given workspace folder, or the documents
+/// outside of any workspace folder if undefined.
+function getScopeKey(workspaceFolder: Optional<vscode.WorkspaceFolder>) {
+  return workspaceFolder?.uri.toString() ?? '';
 }
 
 export class PythonEnvironmentManager extends DisposableContext {
   private api: PythonExtension | undefined = undefined;
   private logger: Logger;
   private reporter: TelemetryReporter;
+  private workspaceState: vscode.Memento;
   public onEnvironmentChange: vscode.Event<void>;
   private envChangeEmitter: vscode.EventEmitter<void>;
+  /// Fired when the modular.cfg file or a tool of a loaded SDK changes, e.g.
+  /// because the SDK was upgraded.
+  public onDidChangeSDKFiles: vscode.Event<SDKFileChange>;
+  private sdkFilesChangeEmitter: vscode.EventEmitter<SDKFileChange>;
   private displayedSDKError: boolean = false;
-  private lastLoadedEnv: string | undefined = undefined;
+  /// The number of SDK loads in progress whose errors must not be displayed.
+  private silentLoads = 0;
+  /// The message of the last SDK error, used to explain why a candidate failed
+  /// to load.
+  private lastSDKError: Optional<string>;
+  /// The error of the last failed load of each SDK candidate, keyed by
+  /// `getScopeKey` and the candidate id.
+  private candidateErrors = new Map<string, string>();
+  /// The last Python environment loaded for each workspace folder, keyed by
+  /// `getScopeKey`.
+  private lastLoadedEnvs = new Map<string, string>();
+  /// The id of the source the last loaded SDK of each workspace folder came
+  /// from, keyed by `getScopeKey`.
+  private activeSDKIds = new Map<string, string>();
+  /// The SDK loaded for each workspace folder, keyed by `getScopeKey`. Entries
+  /// are removed when the environment, the SDK files or the settings change.
+  private sdkCache = new Map<string, CachedSDK>();
+  /// The features already reported as unavailable for each loaded SDK.
+  private reportedFeatures = new WeakMap<SDK, Set<SDKFeature>>();
 
-  constructor(logger: Logger, reporter: TelemetryReporter) {
+  constructor(
+    logger: Logger,
+    reporter: TelemetryReporter,
+    workspaceState: vscode.Memento,
+  ) {
     super();
     this.logger = logger;
     this.reporter = reporter;
+    this.workspaceState = workspaceState;
     this.envChangeEmitter = new vscode.EventEmitter();
     this.onEnvironmentChange = this.envChangeEmitter.event;
+    this.sdkFilesChangeEmitter = new vscode.EventEmitter();
+    this.onDidChangeSDKFiles = this.sdkFilesChangeEmitter.event;
+
+    this.pushSubscription(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('mojo.SDK')) {
+          this.logger.debug('SDK settings changed, clearing the SDK cache.');
+          this.invalidateSDKCache();
+        }
+      }),
+    );
+    this.pushSubscription(
+      new vscode.Disposable(() => this.invalidateSDKCache()),
+    );
   }
 
   public async init() {
-    this.api = await PythonExtension.api();
+    // The Python extension is an optional source of environments.
+    if (!vscode.extensions.getExtension(PYTHON_EXTENSION_ID)) {
+      this.logger.info(
+        'The Python extension is not installed; only built-in environment discovery will be used.',
+      );
+      return;
+    }
+
+    try {
+      this.api = await PythonExtension.api();
+    } catch (e) {
+      this.logger.warn(
+        'Unable to activate the Python extension; only built-in environment discovery will be used.',
+        e,
+      );
+      return;
+    }
+
     this.pushSubscription(
       this.api.environments.onDidChangeActiveEnvironmentPath((p) =>
-        this.handleEnvironmentChange(p.path),
+        this.handleEnvironmentChange(p.path, p.resource),
       ),
     );
   }
 
-  private async handleEnvironmentChange(newEnv: string) {
+  private async handleEnvironmentChange(
+    newEnv: string,
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ) {
+    const scopeKey = getScopeKey(this.normalizeScope(workspaceFolder));
+    const lastLoadedEnv = this.lastLoadedEnvs.get(scopeKey);
     this.logger.debug(
-      `Active environment path change: ${newEnv} (current: ${this.lastLoadedEnv})`,
+      `Active environment path change: ${newEnv} (current: ${lastLoadedEnv})`,
     );
-    if (newEnv != this.lastLoadedEnv) {
+    if (newEnv != lastLoadedEnv) {
       this.logger.info('Python environment has changed, reloading SDK');
+      // A change without a workspace folder applies to every folder using the
+      // global environment.
+      this.invalidateSDKCache(workspaceFolder ? scopeKey : undefined);
       this.envChangeEmitter.fire();
       this.displayedSDKError = false;
     }
   }
 
-  /// Load the active SDK from the currently active Python environment, or undefined if one is not present.
-  public async getActiveSDK(): Promise<SDK | undefined> {
-    assert(this.api !== undefined);
+  /// Load the active SDK for the given workspace folder, or undefined if one is
+  /// not present. An SDK explicitly selected by the user takes precedence over
+  /// the automatically detected ones. Documents outside of any workspace folder
+  /// use an undefined workspace folder.
+  ///
+  /// The loaded SDK is cached until its environment, its files or the SDK
+  /// settings change. Failures to load an SDK are not cached.
+  ///
+  /// A silent load only logs its errors, e.g. when the SDK is needed for a
+  /// feature the user didn't explicitly ask for. Errors of other loads running
+  /// meanwhile are then only logged too; they are displayed by the next load,
+  /// since failures are not cached.
+  public async getActiveSDK(
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+    silent: boolean = false,
+  ): Promise<SDK | undefined> {
+    workspaceFolder = this.normalizeScope(workspaceFolder);
+    const scopeKey = getScopeKey(workspaceFolder);
+    const cached = this.sdkCache.get(scopeKey);
+    if (cached) {
+      return cached.sdk;
+    }
+
+    if (silent) {
+      this.silentLoads++;
+    }
+    const entry: CachedSDK = { sdk: this.loadActiveSDK(workspaceFolder) };
+    this.sdkCache.set(scopeKey, entry);
+    let sdk: Optional<SDK>;
+    try {
+      sdk = await entry.sdk;
+    } catch (e) {
+      if (this.sdkCache.get(scopeKey) === entry) {
+        this.sdkCache.delete(scopeKey);
+      }
+      throw e;
+    } finally {
+      if (silent) {
+        this.silentLoads--;
+      }
+    }
+
+    // The cache may have been invalidated while the SDK was loading.
+    if (this.sdkCache.get(scopeKey) === entry) {
+      if (sdk) {
+        sdk.workspaceFolder = workspaceFolder;
+        entry.watcher = this.watchSDKFiles(scopeKey, sdk);
+      } else {
+        this.sdkCache.delete(scopeKey);
+      }
+    }
+    return sdk;
+  }
+
+  private async loadActiveSDK(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Promise<SDK | undefined> {
+    const scopeKey = getScopeKey(workspaceFolder);
+    this.activeSDKIds.delete(scopeKey);
+    const selectedId = this.getSelectedSDKId(workspaceFolder);
+    if (selectedId !== undefined) {
+      const candidate = (await this.getSDKCandidates(workspaceFolder)).find(
+        (candidate) => candidate.id === selectedId,
+      );
+
+      if (candidate) {
+        this.logger.info(`Loading the selected SDK '${candidate.id}'.`);
+        const sdk = await this.loadSDKCandidate(candidate, workspaceFolder);
+        if (sdk) {
+          this.activeSDKIds.set(scopeKey, candidate.id);
+        }
+        return sdk;
+      }
+
+      this.logger.warn(
+        `The selected SDK '${selectedId}' is no longer available; falling back to automatic detection.`,
+      );
+    }
+
     // Prioritize retrieving a monorepo SDK over querying the environment.
-    const monorepoSDK = await this.tryGetMonorepoSDK();
+    const monorepoSDK = await this.tryGetMonorepoSDK(workspaceFolder);
 
     if (monorepoSDK) {
       this.logger.info(
         'Monorepo SDK found, prioritizing that over Python environment.',
       );
+      this.activeSDKIds.set(scopeKey, 'monorepo');
       return monorepoSDK;
     }
 
-    const envPath = this.api.environments.getActiveEnvironmentPath();
+    const envSDK = await this.getEnvironmentSDK(workspaceFolder);
+    if (envSDK) {
+      this.activeSDKIds.set(scopeKey, 'environment');
+      return envSDK;
+    }
+
+    const [discoveredEnv] =
+      await this.discoverEnvironmentsWithSDK(workspaceFolder);
+    if (discoveredEnv) {
+      this.logger.info(`Using the SDK from ${discoveredEnv.description}.`);
+      this.activeSDKIds.set(scopeKey, discoveredEnv.id);
+      return this.createSDKFromDiscoveredEnvironment(discoveredEnv);
+    }
+
+    if (this.api && !(await this.hasActiveInterpreter(workspaceFolder))) {
+      await this.displaySDKError({
+        kind: SDKErrorKind.NoInterpreter,
+        message:
+          'Unable to load a Python environment, and no Mojo SDK was found in a Pixi project, CONDA_PREFIX or MODULAR_HOME.',
+        workspaceFolder,
+      });
+    } else {
+      await this.displaySDKError({
+        kind: SDKErrorKind.NoModularPackage,
+        message:
+          'Unable to find a Mojo SDK in the active Python environment, a Pixi project, CONDA_PREFIX or MODULAR_HOME. Make sure the `modular` package is installed.',
+        workspaceFolder,
+      });
+    }
+    return undefined;
+  }
+
+  /// Checks if the Python extension resolves an interpreter for the given
+  /// workspace folder.
+  private async hasActiveInterpreter(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Promise<boolean> {
+    if (!this.api) {
+      return false;
+    }
+
+    const envPath =
+      this.api.environments.getActiveEnvironmentPath(workspaceFolder);
+    return !!(await this.api.environments.resolveEnvironment(envPath));
+  }
+
+  /// Discards the cached SDK of the given workspace folder and loads it again.
+  public async reloadActiveSDK(
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+  ): Promise<SDK | undefined> {
+    this.invalidateSDKCache(getScopeKey(this.normalizeScope(workspaceFolder)));
+    return this.getActiveSDK(workspaceFolder);
+  }
+
+  /// Lists every SDK the user can choose from for the given workspace folder:
+  /// the one from the active Python environment, the ones found by the
+  /// built-in environment discovery, the monorepo SDK if present, and any
+  /// additional SDKs declared in the `mojo.SDK.additionalSDKs` setting.
+  public async getSDKCandidates(
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+  ): Promise<SDKCandidate[]> {
+    workspaceFolder = this.normalizeScope(workspaceFolder);
+    const candidates: SDKCandidate[] = [];
+
+    if (this.api) {
+      candidates.push({
+        id: 'environment',
+        kind: SDKKind.Environment,
+        description: 'Active Python environment',
+        load: () => this.getEnvironmentSDK(workspaceFolder),
+      });
+    }
+
+    for (const env of await this.discoverEnvironmentsWithSDK(workspaceFolder)) {
+      candidates.push({
+        id: env.id,
+        kind: this.getDiscoveredEnvironmentKind(env),
+        description: env.description,
+        load: () => this.createSDKFromDiscoveredEnvironment(env),
+      });
+    }
+
+    const monorepoPath = await this.getMonorepoHomePath(workspaceFolder);
+    if (monorepoPath) {
+      candidates.push({
+        id: 'monorepo',
+        kind: SDKKind.Internal,
+        description: monorepoPath,
+        error: await this.checkHomePath(monorepoPath),
+        load: () => this.createSDKFromHomePath(SDKKind.Internal, monorepoPath),
+      });
+    }
+
+    const additionalSDKs = config.get<string[]>(
+      'SDK.additionalSDKs',
+      workspaceFolder,
+      [],
+    );
+    for (const homePath of additionalSDKs) {
+      candidates.push({
+        id: `custom:${homePath}`,
+        kind: SDKKind.Custom,
+        description: homePath,
+        error: await this.checkHomePath(homePath),
+        load: () => this.createSDKFromHomePath(SDKKind.Custom, homePath),
+      });
+    }
+
+    return candidates.map((candidate) => ({
+      ...candidate,
+      error:
+        candidate.error ??
+        this.getSDKCandidateError(candidate.id, workspaceFolder),
+    }));
+  }
+
+  /// Returns the error of the last failed load of the SDK candidate with the
+  /// given id, if any.
+  public getSDKCandidateError(
+    id: string,
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+  ): Optional<string> {
+    return this.candidateErrors.get(
+      `${getScopeKey(this.normalizeScope(workspaceFolder))}:${id}`,
+    );
+  }
+
+  /// Loads the given SDK candidate of the given workspace folder. The reason of
+  /// a failure is remembered and reported by `getSDKCandidates` until the
+  /// candidate loads successfully.
+  public async loadSDKCandidate(
+    candidate: SDKCandidate,
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+  ): Promise<Optional<SDK>> {
+    const key = `${getScopeKey(this.normalizeScope(workspaceFolder))}:${candidate.id}`;
+    this.lastSDKError = undefined;
+    const sdk = await candidate.load();
+    if (sdk) {
+      this.candidateErrors.delete(key);
+    } else {
+      this.candidateErrors.set(
+        key,
+        this.lastSDKError ??
+          'Unable to load the SDK; see the Mojo output for details.',
+      );
+    }
+    return sdk;
+  }
+
+  /// Checks, without loading it, that the given home path describes an SDK.
+  /// Returns why it doesn't, or undefined if it does.
+  private async checkHomePath(homePath: string): Promise<Optional<string>> {
+    const modularCfgPath = path.join(homePath, 'modular.cfg');
+    return (await fileExists(modularCfgPath))
+      ? undefined
+      : `${modularCfgPath} does not exist.`;
+  }
+
+  /// Returns the id of the SDK candidate explicitly selected by the user for
+  /// the given workspace folder, if any.
+  public getSelectedSDKId(
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+  ): Optional<string> {
+    return this.workspaceState.get<string>(
+      this.getSelectedSDKKey(workspaceFolder),
+    );
+  }
+
+  /// Returns the id of the source the SDK of the given workspace folder was last
+  /// loaded from, either explicitly selected or automatically detected.
+  public getActiveSDKId(
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+  ): Optional<string> {
+    return this.activeSDKIds.get(
+      getScopeKey(this.normalizeScope(workspaceFolder)),
+    );
+  }
+
+  /// Persists the SDK selection for the given workspace folder and reloads the
+  /// SDK. Passing an undefined id restores the automatic detection.
+  public async selectSDK(
+    id: Optional<string>,
+    workspaceFolder?: Optional<vscode.WorkspaceFolder>,
+  ) {
+    if (id === this.getSelectedSDKId(workspaceFolder)) {
+      return;
+    }
+
+    this.logger.info(
+      `Selected SDK for '${workspaceFolder?.name ?? 'workspace'}' changed to '${id ?? 'automatic'}'.`,
+    );
+    await this.workspaceState.update(
+      this.getSelectedSDKKey(workspaceFolder),
+      id,
+    );
+    this.invalidateSDKCache(getScopeKey(this.normalizeScope(workspaceFolder)));
+    this.displayedSDKError = false;
+    this.envChangeEmitter.fire();
+  }
+
+  /// Removes the cached SDK of the workspace folder with the given scope key,
+  /// or of every workspace folder if undefined.
+  private invalidateSDKCache(scopeKey?: string) {
+    for (const [key, entry] of this.sdkCache) {
+      if (scopeKey === undefined || key === scopeKey) {
+        entry.watcher?.dispose();
+        this.sdkCache.delete(key);
+      }
+    }
+  }
+
+  /// Watches the modular.cfg file and the tools of the given SDK. When any of
+  /// them changes, the SDK is removed from the cache and `onDidChangeSDKFiles`
+  /// is fired.
+  private watchSDKFiles(scopeKey: string, sdk: SDK): vscode.Disposable {
+    const paths = [
+      sdk.modularCfgPath,
+      sdk.mojoPath,
+      sdk.lspPath,
+      sdk.mblackPath,
+      sdk.dapPath,
+      sdk.lldbPath,
+    ].filter((p): p is string => !!p);
+
+    const watcher = chokidar.watch(paths, {
+      disableGlobbing: true,
+      followSymlinks: true,
+      ignoreInitial: true,
+      awaitWriteFinish: true,
+    });
+    watcher.on('all', (event, filename) => {
+      this.logger.debug(
+        `SDK file '${filename}' changed (${event}), clearing the SDK cache.`,
+      );
+      this.invalidateSDKCache(scopeKey);
+      this.sdkFilesChangeEmitter.fire({
+        workspaceFolder: sdk.workspaceFolder,
+        sdk,
+        path: filename,
+      });
+    });
+    return new vscode.Disposable(() => {
+      watcher.close();
+    });
+  }
+
+  private getSelectedSDKKey(workspaceFolder: Optional<vscode.WorkspaceFolder>) {
+    const scopeKey = getScopeKey(this.normalizeScope(workspaceFolder));
+    return scopeKey.length > 0
+      ? `${SELECTED_SDK_KEY}.${scopeKey}`
+      : SELECTED_SDK_KEY;
+  }
+
+  /// When a single workspace folder is open, documents outside of it are
+  /// treated as if they belonged to it, so that they share the same SDK.
+  private normalizeScope(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Optional<vscode.WorkspaceFolder> {
+    if (workspaceFolder) {
+      return workspaceFolder;
+    }
+
+    const folders = vscode.workspace.workspaceFolders;
+    return folders?.length === 1 ? folders[0] : undefined;
+  }
+
+  /// Lists the environments found without the Python extension that contain a
+  /// modular.cfg file.
+  private async discoverEnvironmentsWithSDK(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Promise<DiscoveredEnvironment[]> {
+    const environments: DiscoveredEnvironment[] = [];
+    for (const env of await discoverEnvironments(workspaceFolder)) {
+      const hasModularCfg = env.prefixPath
+        ? await this.envHasModularCfg(env.prefixPath)
+        : await fileExists(path.join(env.homePath, 'modular.cfg'));
+
+      if (hasModularCfg) {
+        environments.push(env);
+      } else {
+        this.logger.debug(
+          `Ignoring ${env.description} because it doesn't contain a modular.cfg file.`,
+        );
+      }
+    }
+    return environments;
+  }
+
+  private getDiscoveredEnvironmentKind(env: DiscoveredEnvironment): SDKKind {
+    return env.source === 'modularHome' ? SDKKind.Custom : SDKKind.Environment;
+  }
+
+  private createSDKFromDiscoveredEnvironment(
+    env: DiscoveredEnvironment,
+  ): Promise<Optional<SDK>> {
+    return this.createSDKFromHomePath(
+      this.getDiscoveredEnvironmentKind(env),
+      env.homePath,
+      env.prefixPath,
+    );
+  }
+
+  /// Load the SDK from the Python environment active for the given workspace
+  /// folder, or undefined if one is not present or if the Python extension is
+  /// not available.
+  private async getEnvironmentSDK(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Promise<SDK | undefined> {
+    if (!this.api) {
+      return undefined;
+    }
+
+    const envPath =
+      this.api.environments.getActiveEnvironmentPath(workspaceFolder);
     const env = await this.api.environments.resolveEnvironment(envPath);
     this.logger.info('Loading MAX SDK information from Python environment');
-    this.lastLoadedEnv = envPath.path;
+    this.lastLoadedEnvs.set(getScopeKey(workspaceFolder), envPath.path);
 
     if (!env) {
       this.logger.error(
         'No Python enviroment could be retrieved from the Python extension.',
       );
-      await this.displaySDKError(
-        'Unable to load a Python enviroment from the VS Code Python extension.',
-      );
       return undefined;
     }
 
@@ -210,13 +870,13 @@ export class PythonEnvironmentManager extends DisposableContext {
     // extension because it considers Conda and wheel-based installs to be the
     // same, when we need to differentiate them.
     this.logger.info(`Found Python environment at ${envPath.path}`, env);
-    if (await this.envHasModularCfg(env)) {
+    if (await this.envHasModularCfg(env.executable.sysPrefix)) {
       this.logger.info(
         `Python environment '${envPath.path}' appears to be Conda-like; using modular.cfg method.`,
       );
       return this.createSDKFromHomePath(
         SDKKind.Environment,
-        path.join(env.executable.sysPrefix, 'share', 'max'),
+        getPrefixHomePath(env.executable.sysPrefix),
         env.executable.sysPrefix,
       );
     } else {
@@ -227,94 +887,174 @@ export class PythonEnvironmentManager extends DisposableContext {
     }
   }
 
-  private async displaySDKError(message: string) {
-    if (this.displayedSDKError) {
+  private async displaySDKError(error: SDKError) {
+    this.logger.error(`SDK error (${error.kind}): ${error.message}`);
+    this.lastSDKError = error.message;
+    if (this.displayedSDKError || this.silentLoads > 0) {
       return;
     }
 
     this.displayedSDKError = true;
-    await vscode.window.showErrorMessage(message);
+    // The chosen action isn't awaited, as it may need the SDK being loaded.
+    showSDKError(error, !!this.api, this.logger).catch((e) =>
+      this.logger.error('Unable to run the action of the SDK error', e),
+    );
   }
 
-  private async envHasModularCfg(env: ResolvedEnvironment): Promise<boolean> {
-    return fileExists(
-      path.join(env.executable.sysPrefix, 'share', 'max', 'modular.cfg'),
+  /// Checks that the given SDK provides the tools required by a feature. If it
+  /// doesn't, the missing tools are logged and, once per SDK and feature,
+  /// reported to the user.
+  public async checkFeature(sdk: SDK, feature: SDKFeature): Promise<boolean> {
+    const missingTools = await sdk.getMissingTools(feature);
+    if (missingTools.length === 0) {
+      return true;
+    }
+
+    this.logger.warn(
+      `The Mojo ${feature} is unavailable: the SDK ${sdk.version} doesn't provide ${missingTools.join(', ')}.`,
     );
+    const reported = this.reportedFeatures.get(sdk) ?? new Set<SDKFeature>();
+    this.reportedFeatures.set(sdk, reported);
+    if (reported.has(feature)) {
+      return false;
+    }
+
+    reported.add(feature);
+    const runDoctor = 'Run SDK Doctor';
+    vscode.window
+      .showWarningMessage(
+        `The Mojo ${feature} is unavailable because the SDK doesn't provide ${missingTools.join(', ')}. Other Mojo features are not affected.`,
+        runDoctor,
+      )
+      .then((choice) => {
+        if (choice === runDoctor) {
+          vscode.commands.executeCommand('mojo.sdk.doctor');
+        }
+      });
+    return false;
+  }
+
+  private async envHasModularCfg(prefixPath: string): Promise<boolean> {
+    return fileExists(path.join(getPrefixHomePath(prefixPath), 'modular.cfg'));
   }
 
   private async createSDKFromWheelEnv(
     env: ResolvedEnvironment,
   ): Promise<SDK | undefined> {
-    const binPath = path.join(env.executable.sysPrefix, 'bin');
-    const libPath = path.join(
-      env.executable.sysPrefix,
-      'lib',
-      `python${env.version!.major}.${env.version!.minor}`,
-      'site-packages',
-      'modular',
-      'lib',
-    );
-    // helper to pull required files/folders out of the environment
-    const retrievePath = async (target: string) => {
-      this.logger.debug(`Retrieving tool path '${target}'.`);
-      try {
-        // stat-ing the path confirms it exists in some form; if an exception is thrown then it doesn't exist.
-        await vscode.workspace.fs.stat(vscode.Uri.file(target));
-        return target;
-      } catch {
-        this.logger.error(`Missing path ${target} in venv.`);
-        return undefined;
-      }
-    };
-
-    const libExt = process.platform == 'darwin' ? 'dylib' : 'so';
+    const pythonPath = env.executable.uri?.fsPath ?? env.path;
+    let info;
+    try {
+      info = await queryWheelEnvironment(pythonPath);
+    } catch (e) {
+      this.logger.error(
+        `Unable to query the install paths of the Python interpreter '${pythonPath}'.`,
+        e,
+      );
+      return undefined;
+    }
+    this.logger.debug(`Python environment '${env.path}' layout`, info.paths);
 
-    const mojoPath = await retrievePath(path.join(binPath, 'mojo'));
-    const lspPath = await retrievePath(path.join(binPath, 'mojo-lsp-server'));
-    const lldbPluginPath = await retrievePath(
-      path.join(libPath, `libMojoLLDB.${libExt}`),
-    );
-    const mblackPath = await retrievePath(path.join(binPath, 'mblack'));
-    const dapPath = await retrievePath(path.join(binPath, 'lldb-dap'));
-    const visualizerPath = await retrievePath(
-      path.join(libPath, 'lldb-visualizers'),
-    );
-    const lldbPath = await retrievePath(path.join(binPath, 'mojo-lldb'));
-    // The debugger requires that we avoid using the wrapped `mojo` entrypoint for specific scenarios.
-    const rawMojoPath = await retrievePath(
-      path.join(libPath, '..', 'bin', 'mojo'),
-    );
+    const tools = await locateWheelTools(info, this.logger);
+    if (!tools) {
+      this.logger.info(
+        `The 'modular' package is not installed in the Python environment '${env.path}'.`,
+      );
+      return undefined;
+    }
 
-    if (
-      !mojoPath ||
-      !lspPath ||
-      !lldbPluginPath ||
-      !rawMojoPath ||
-      !mblackPath ||
-      !lldbPluginPath ||
-      !dapPath ||
-      !visualizerPath ||
-      !lldbPath
-    ) {
+    // Only the `mojo` driver is required; the features relying on the other
+    // tools are disabled on their own when those are missing.
+    const { mojoPath, rawMojoPath } = tools;
+    if (!mojoPath) {
+      await this.displaySDKError({
+        kind: SDKErrorKind.MissingTool,
+        message: `The Mojo SDK in the Python environment '${env.path}' doesn't provide the 'mojo' driver. Try reinstalling the 'modular' package.`,
+      });
       return undefined;
     }
 
     // We don't know the version intrinsically so we need to invoke it ourselves.
-    const versionResult = await exec(`"${mojoPath}" --version`);
-    return new SDK(
+    let versionResult;
+    try {
+      versionResult = await exec(`"${mojoPath}" --version`);
+    } catch (e) {
+      this.logger.error(`Unable to query the version of '${mojoPath}'.`, e);
+      return undefined;
+    }
+    return new WheelSDK(
       this.logger,
-      SDKKind.Environment,
       versionResult.stdout,
-      lspPath,
-      mblackPath,
-      lldbPluginPath,
-      dapPath,
+      tools.lspPath,
+      tools.mblackPath,
+      tools.lldbPluginPath,
+      tools.dapPath,
       mojoPath,
-      visualizerPath,
-      lldbPath,
+      tools.visualizersPath,
+      tools.lldbPath,
+      rawMojoPath,
+      rawMojoPath
+        ? await this.getWheelDriverEnv(tools.packagePath, rawMojoPath)
+        : {},
     );
   }
 
+  /// Computes the environment variables the `mojo` wrapper of a wheel
+  /// installation sets before running the raw driver. Each of them overrides
+  /// the `[mojo-max]` key of the same name that a modular.cfg file would
+  /// provide. Variables pointing to files missing from the installation are
+  /// left unset.
+  private async getWheelDriverEnv(
+    packagePath: string,
+    rawMojoPath: string,
+  ): Promise<Record<string, string>> {
+    const libPath = path.join(packagePath, 'lib');
+    const binPath = path.join(packagePath, 'bin');
+    const libExt = process.platform == 'darwin' ? 'dylib' : 'so';
+    const env: Record<string, string> = {
+      MODULAR_MOJO_MAX_DRIVER_PATH: rawMojoPath,
+    };
+
+    const paths: Record<string, string> = {
+      MODULAR_MOJO_MAX_IMPORT_PATH: path.join(libPath, 'mojo'),
+      MODULAR_MOJO_MAX_LLD_PATH: path.join(binPath, 'lld'),
+      MODULAR_MOJO_MAX_COMPILERRT_PATH: path.join(
+        libPath,
+        `libKGENCompilerRTShared.${libExt}`,
+      ),
+      MODULAR_MOJO_MAX_MGPRT_PATH: path.join(libPath, `libMGPRT.${libExt}`),
+      MODULAR_MOJO_MAX_ATENRT_PATH: path.join(libPath, `libATenRT.${libExt}`),
+      MODULAR_MOJO_MAX_ORCRT_PATH: path.join(libPath, 'liborc_rt.a'),
+    };
+    for (const [name, target] of Object.entries(paths)) {
+      if ((await fileExists(target)) || (await directoryExists(target))) {
+        env[name] = target;
+      } else {
+        this.logger.debug(`Not setting ${name}: '${target}' does not exist.`);
+      }
+    }
+
+    const sharedLibs = [];
+    for (const lib of [
+      'libAsyncRTMojoBindings',
+      'libAsyncRTRuntimeGlobals',
+      'libMSupportGlobals',
+    ]) {
+      const libFile = path.join(libPath, `${lib}.${libExt}`);
+      if (await fileExists(libFile)) {
+        sharedLibs.push(libFile);
+      }
+    }
+    env['MODULAR_MOJO_MAX_SHARED_LIBS'] = [
+      ...sharedLibs,
+      `-Xlinker,-rpath,-Xlinker,${libPath}`,
+    ].join(',');
+    env['MODULAR_MOJO_MAX_SYSTEM_LIBS'] =
+      process.platform == 'darwin' ? '-lm' : '-lrt,-ldl,-lpthread,-lm';
+
+    this.logger.debug('Computed the wheel driver environment', env);
+    return env;
+  }
+
   /// Attempts to create a SDK from a home path. Returns undefined if creation failed.
   public async createSDKFromHomePath(
     kind: SDKKind,
@@ -329,7 +1069,11 @@ export class PythonEnvironmentManager extends DisposableContext {
         vscode.Uri.file(modularCfgPath),
       );
     } catch (e) {
-      await this.displaySDKError(`Unable to read modular.cfg: ${e}`);
+      await this.displaySDKError({
+        kind: SDKErrorKind.CorruptedConfig,
+        message: `Unable to read modular.cfg: ${e}`,
+        modularCfgPath,
+      });
       this.logger.error('Error reading modular.cfg', e);
       return undefined;
     }
@@ -338,9 +1082,12 @@ export class PythonEnvironmentManager extends DisposableContext {
     try {
       contents = decoder.decode(bytes);
     } catch (e) {
-      await this.displaySDKError(
-        'Unable to decode modular.cfg; your MAX installation may be corrupted.',
-      );
+      await this.displaySDKError({
+        kind: SDKErrorKind.CorruptedConfig,
+        message:
+          'Unable to decode modular.cfg; your MAX installation may be corrupted.',
+        modularCfgPath,
+      });
       this.logger.error('Error decoding modular.cfg bytes to string', e);
       return undefined;
     }
@@ -349,15 +1096,23 @@ export class PythonEnvironmentManager extends DisposableContext {
     try {
       config = ini.parse(contents);
     } catch (e) {
-      await this.displaySDKError(
-        'Unable to parse modular.cfg; your MAX installation may be corrupted.',
-      );
+      await this.displaySDKError({
+        kind: SDKErrorKind.CorruptedConfig,
+        message:
+          'Unable to parse modular.cfg; your MAX installation may be corrupted.',
+        modularCfgPath,
+      });
       this.logger.error('Error parsing modular.cfg contents as INI', e);
       return undefined;
     }
 
     try {
       const version = 'version' in config.max ? config.max.version : '0.0.0';
+      // The driver is the only tool every SDK must provide.
+      const driverPath: Optional<string> = config['mojo-max']['driver_path'];
+      if (!driverPath) {
+        throw new Error("The 'driver_path' key of [mojo-max] is missing.");
+      }
       this.logger.info(`Found SDK with version ${version}`);
 
       this.reporter.sendTelemetryEvent('sdkLoaded', {
@@ -365,7 +1120,7 @@ export class PythonEnvironmentManager extends DisposableContext {
         kind,
       });
 
-      return new HomeSDK(
+      const sdk = new HomeSDK(
         this.logger,
         kind,
         version,
@@ -374,39 +1129,61 @@ export class PythonEnvironmentManager extends DisposableContext {
         config['mojo-max']['mblack_path'],
         config['mojo-max']['lldb_plugin_path'],
         config['mojo-max']['lldb_vscode_path'],
-        config['mojo-max']['driver_path'],
+        driverPath,
         config['mojo-max']['lldb_visualizers_path'],
         config['mojo-max']['lldb_path'],
         prefixPath,
       );
+
+      // Only the driver is required here; the features relying on the other
+      // tools are disabled on their own when those are missing.
+      if (!(await fileExists(sdk.mojoPath))) {
+        await this.displaySDKError({
+          kind: SDKErrorKind.MissingTool,
+          message: `The Mojo SDK described by ${modularCfgPath} is incomplete; missing: ${sdk.mojoPath}.`,
+          modularCfgPath,
+        });
+        return undefined;
+      }
+      return sdk;
     } catch (e) {
-      await this.displaySDKError(
-        'Unable to read a configuration key from modular.cfg; your MAX installation may be corrupted.',
-      );
+      await this.displaySDKError({
+        kind: SDKErrorKind.CorruptedConfig,
+        message:
+          'Unable to read a configuration key from modular.cfg; your MAX installation may be corrupted.',
+        modularCfgPath,
+      });
       this.logger.error('Error creating SDK from modular.cfg', e);
       return undefined;
     }
   }
 
-  /// Attempt to load a monorepo SDK from the currently open workspace folder.
-  /// Resolves with the loaded SDK, or undefined if one doesn't exist.
-  private async tryGetMonorepoSDK(): Promise<SDK | undefined> {
-    if (!vscode.workspace.workspaceFolders) {
-      return;
+  /// Attempt to load a monorepo SDK from the given workspace folder. Resolves
+  /// with the loaded SDK, or undefined if one doesn't exist.
+  private async tryGetMonorepoSDK(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Promise<SDK | undefined> {
+    const homePath = await this.getMonorepoHomePath(workspaceFolder);
+    if (!homePath) {
+      return undefined;
     }
+    return this.createSDKFromHomePath(SDKKind.Internal, homePath);
+  }
 
-    if (vscode.workspace.workspaceFolders.length !== 1) {
+  /// Returns the path to the `.derived` folder of the given workspace folder if
+  /// it is a monorepo checkout, or undefined otherwise.
+  private async getMonorepoHomePath(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Promise<Optional<string>> {
+    if (!workspaceFolder) {
       return;
     }
 
-    const folder = vscode.Uri.joinPath(
-      vscode.workspace.workspaceFolders[0].uri,
-      '.derived',
-    );
+    const folder = vscode.Uri.joinPath(workspaceFolder.uri, '.derived');
     try {
       const info = await vscode.workspace.fs.stat(folder);
       if (info.type & vscode.FileType.Directory) {
-        return this.createSDKFromHomePath(SDKKind.Internal, folder.fsPath);
+        return folder.fsPath;
       }
     } catch {
       return undefined;
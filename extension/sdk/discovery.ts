@@ -0,0 +1,204 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+//
+// Finds environments that may contain a Mojo SDK without relying on the Python
+// extension.
+//
+//===----------------------------------------------------------------------===//
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Optional } from '../types';
+import { fileExists, moveUpUntil } from '../utils/files';
+
+/**
+ * The project manifests that identify a Pixi project.
+ */
+const PIXI_MANIFESTS = ['pixi.toml', 'mojoproject.toml'];
+
+/**
+ * The name of the environment Pixi uses when none is specified.
+ */
+const PIXI_DEFAULT_ENVIRONMENT = 'default';
+
+/**
+ * The prefix of the ids of the environments found in a Pixi project.
+ */
+const PIXI_ID_PREFIX = 'pixi:';
+
+/**
+ * An environment found on disk or through the process environment variables.
+ */
+export interface DiscoveredEnvironment {
+  /**
+   * A stable identifier for this environment, used to persist the selection.
+   */
+  id: string;
+  /**
+   * Where this environment was found.
+   */
+  source: 'pixi' | 'conda' | 'modularHome';
+  /**
+   * A short human-readable description of this environment.
+   */
+  description: string;
+  /**
+   * The prefix of the Conda-like environment. Undefined when the environment is
+   * a bare MODULAR_HOME.
+   */
+  prefixPath?: string;
+  /**
+   * The MODULAR_HOME of the SDK, i.e. the folder expected to contain its
+   * modular.cfg file.
+   */
+  homePath: string;
+}
+
+/**
+ * Returns the MODULAR_HOME of a Conda-like environment prefix.
+ */
+export function getPrefixHomePath(prefixPath: string): string {
+  return path.join(prefixPath, 'share', 'max');
+}
+
+/**
+ * Finds the manifest of the nearest Pixi project containing the given path.
+ */
+export async function findPixiManifest(
+  startPath: string,
+): Promise<Optional<string>> {
+  const projectPath = await moveUpUntil(startPath, async (dir) => {
+    for (const manifest of PIXI_MANIFESTS) {
+      if (await fileExists(path.join(dir, manifest))) {
+        return true;
+      }
+    }
+    return false;
+  });
+
+  if (!projectPath) {
+    return undefined;
+  }
+
+  for (const manifest of PIXI_MANIFESTS) {
+    const manifestPath = path.join(projectPath, manifest);
+    if (await fileExists(manifestPath)) {
+      return manifestPath;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the names of the environments installed in the given Pixi project.
+ */
+async function listPixiEnvironments(projectPath: string): Promise<string[]> {
+  try {
+    const entries = await vscode.workspace.fs.readDirectory(
+      vscode.Uri.file(path.join(projectPath, '.pixi', 'envs')),
+    );
+    return entries
+      .filter(([_name, type]) => type & vscode.FileType.Directory)
+      .map(([name, _type]) => name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds the environments of the nearest Pixi project containing the given
+ * workspace folder. The default environment comes first, followed by the other
+ * ones in alphabetical order.
+ */
+export async function discoverPixiEnvironments(
+  workspaceFolder: vscode.WorkspaceFolder,
+): Promise<DiscoveredEnvironment[]> {
+  const manifestPath = await findPixiManifest(workspaceFolder.uri.fsPath);
+  if (!manifestPath) {
+    return [];
+  }
+
+  const projectPath = path.dirname(manifestPath);
+  const envNames = (await listPixiEnvironments(projectPath)).sort((a, b) =>
+    a === PIXI_DEFAULT_ENVIRONMENT
+      ? -1
+      : b === PIXI_DEFAULT_ENVIRONMENT
+        ? 1
+        : a.localeCompare(b),
+  );
+
+  return envNames.map((envName) => {
+    const prefixPath = path.join(projectPath, '.pixi', 'envs', envName);
+    return {
+      id: getPixiEnvironmentId(envName),
+      source: 'pixi',
+      description: `Pixi environment '${envName}' (${manifestPath})`,
+      prefixPath,
+      homePath: getPrefixHomePath(prefixPath),
+    };
+  });
+}
+
+/**
+ * Returns the id identifying the Pixi environment with the given name.
+ */
+export function getPixiEnvironmentId(envName: string): string {
+  return `${PIXI_ID_PREFIX}${envName}`;
+}
+
+/**
+ * Returns the name of the Pixi environment identified by the given id, or
+ * undefined if the id doesn't identify a Pixi environment.
+ */
+export function getPixiEnvironmentName(id: string): Optional<string> {
+  return id.startsWith(PIXI_ID_PREFIX)
+    ? id.substring(PIXI_ID_PREFIX.length)
+    : undefined;
+}
+
+/**
+ * Finds the environments that may contain a Mojo SDK for the given workspace
+ * folder, in order of preference: the environments of the nearest Pixi project,
+ * the active Conda environment, and the MODULAR_HOME environment variable.
+ */
+export async function discoverEnvironments(
+  workspaceFolder: Optional<vscode.WorkspaceFolder>,
+): Promise<DiscoveredEnvironment[]> {
+  const environments: DiscoveredEnvironment[] = [];
+
+  if (workspaceFolder) {
+    environments.push(...(await discoverPixiEnvironments(workspaceFolder)));
+  }
+
+  const condaPrefix = process.env.CONDA_PREFIX;
+  if (condaPrefix) {
+    environments.push({
+      id: 'conda',
+      source: 'conda',
+      description: `Conda environment (${condaPrefix})`,
+      prefixPath: condaPrefix,
+      homePath: getPrefixHomePath(condaPrefix),
+    });
+  }
+
+  const modularHome = process.env.MODULAR_HOME;
+  if (modularHome) {
+    environments.push({
+      id: 'modularHome',
+      source: 'modularHome',
+      description: `MODULAR_HOME (${modularHome})`,
+      homePath: modularHome,
+    });
+  }
+  return environments;
+}
@@ -0,0 +1,162 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as vscode from 'vscode';
+import { Logger } from '../logging';
+import { Optional } from '../types';
+import { findPixiManifest } from './discovery';
+
+/**
+ * The id of the getting started walkthrough contributed by this extension.
+ */
+export const WALKTHROUGH_ID =
+  'modular-mojotools.vscode-mojo#mojo.gettingStarted';
+
+/**
+ * The reasons an SDK can fail to load.
+ */
+export enum SDKErrorKind {
+  /**
+   * No Python interpreter is selected, or it couldn't be resolved.
+   */
+  NoInterpreter = 'noInterpreter',
+  /**
+   * The environment doesn't contain the `modular` package.
+   */
+  NoModularPackage = 'noModularPackage',
+  /**
+   * The modular.cfg file of the SDK can't be read or is invalid.
+   */
+  CorruptedConfig = 'corruptedConfig',
+  /**
+   * The SDK doesn't contain one of its tools.
+   */
+  MissingTool = 'missingTool',
+}
+
+export interface SDKError {
+  kind: SDKErrorKind;
+  message: string;
+  /**
+   * The workspace folder the SDK was loaded for.
+   */
+  workspaceFolder?: Optional<vscode.WorkspaceFolder>;
+  /**
+   * The path to the modular.cfg file involved in the error, if any.
+   */
+  modularCfgPath?: string;
+}
+
+interface SDKErrorAction {
+  title: string;
+  run: () => Thenable<unknown>;
+}
+
+function openFile(fsPath: string) {
+  return vscode.commands.executeCommand('vscode.open', vscode.Uri.file(fsPath));
+}
+
+/**
+ * Returns the actions offered to fix the given error, most relevant first.
+ */
+async function getSDKErrorActions(
+  error: SDKError,
+  hasPythonExtension: boolean,
+  logger: Logger,
+): Promise<SDKErrorAction[]> {
+  const selectInterpreter: SDKErrorAction = {
+    title: 'Select Interpreter',
+    run: () => vscode.commands.executeCommand('python.setInterpreter'),
+  };
+  const runDoctor: SDKErrorAction = {
+    title: 'Run SDK Doctor',
+    run: () => vscode.commands.executeCommand('mojo.sdk.doctor'),
+  };
+  const viewLogs: SDKErrorAction = {
+    title: 'View Logs',
+    run: async () => logger.main.outputChannel.show(),
+  };
+  const getStarted: SDKErrorAction = {
+    title: 'Get Started',
+    run: () =>
+      vscode.commands.executeCommand(
+        'workbench.action.openWalkthrough',
+        WALKTHROUGH_ID,
+        false,
+      ),
+  };
+
+  const actions: SDKErrorAction[] = [];
+  switch (error.kind) {
+    case SDKErrorKind.NoInterpreter:
+      if (hasPythonExtension) {
+        actions.push(selectInterpreter);
+      }
+      actions.push(getStarted);
+      break;
+    case SDKErrorKind.NoModularPackage: {
+      const manifestPath =
+        error.workspaceFolder &&
+        (await findPixiManifest(error.workspaceFolder.uri.fsPath));
+      if (manifestPath) {
+        actions.push({
+          title: 'Open pixi.toml',
+          run: () => openFile(manifestPath),
+        });
+      } else {
+        actions.push(getStarted);
+      }
+      if (hasPythonExtension) {
+        actions.push(selectInterpreter);
+      }
+      actions.push({
+        title: 'Select SDK',
+        run: () => vscode.commands.executeCommand('mojo.sdk.select'),
+      });
+      break;
+    }
+    case SDKErrorKind.CorruptedConfig: {
+      const modularCfgPath = error.modularCfgPath;
+      if (modularCfgPath) {
+        actions.push({
+          title: 'Open modular.cfg',
+          run: () => openFile(modularCfgPath),
+        });
+      }
+      actions.push(runDoctor);
+      break;
+    }
+    case SDKErrorKind.MissingTool:
+      actions.push(runDoctor);
+      break;
+  }
+  actions.push(viewLogs);
+  return actions;
+}
+
+/**
+ * Shows the given error along with the actions that may fix it, and runs the
+ * action chosen by the user.
+ */
+export async function showSDKError(
+  error: SDKError,
+  hasPythonExtension: boolean,
+  logger: Logger,
+) {
+  const actions = await getSDKErrorActions(error, hasPythonExtension, logger);
+  const choice = await vscode.window.showErrorMessage(
+    error.message,
+    ...actions.map((action) => action.title),
+  );
+  await actions.find((action) => action.title === choice)?.run();
+}
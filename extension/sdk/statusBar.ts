@@ -0,0 +1,107 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as vscode from 'vscode';
+import { DisposableContext } from '../utils/disposableContext';
+import { Optional } from '../types';
+import { PythonEnvironmentManager } from '../pyenv';
+import { getPixiEnvironmentName } from './discovery';
+
+/**
+ * Shows the SDK used by the workspace folder of the active Mojo editor in the
+ * status bar.
+ */
+export class MojoSDKStatusBar extends DisposableContext {
+  private envManager: PythonEnvironmentManager;
+  private statusBarItem: vscode.StatusBarItem;
+  /**
+   * The URI of the workspace folder currently displayed, or null if nothing is
+   * displayed.
+   */
+  private displayedScope: Optional<string> | null = null;
+  /**
+   * Incremented on every refresh so that outdated refreshes can be discarded.
+   */
+  private refreshId = 0;
+
+  constructor(envManager: PythonEnvironmentManager) {
+    super();
+    this.envManager = envManager;
+
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      'mojo-sdk',
+      vscode.StatusBarAlignment.Right,
+    );
+    this.statusBarItem.name = 'Mojo SDK';
+    this.pushSubscription(this.statusBarItem);
+
+    this.pushSubscription(
+      vscode.window.onDidChangeActiveTextEditor(() => this.refresh()),
+    );
+    this.pushSubscription(
+      this.envManager.onEnvironmentChange(() => this.refresh(/*force=*/ true)),
+    );
+    // The version changes when the SDK is upgraded in place.
+    this.pushSubscription(
+      this.envManager.onDidChangeSDKFiles(() => this.refresh(/*force=*/ true)),
+    );
+    this.refresh();
+  }
+
+  private async refresh(force: boolean = false) {
+    const doc = vscode.window.activeTextEditor?.document;
+    if (!doc || doc.languageId !== 'mojo') {
+      this.refreshId++;
+      this.displayedScope = null;
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    const scope = workspaceFolder?.uri.toString();
+    if (!force && scope === this.displayedScope) {
+      return;
+    }
+
+    const refreshId = ++this.refreshId;
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
+    if (refreshId !== this.refreshId) {
+      return;
+    }
+
+    this.displayedScope = scope;
+    if (!sdk) {
+      this.statusBarItem.text = '$(warning) Mojo';
+      this.statusBarItem.tooltip =
+        'No Mojo SDK was found. Click to select one.';
+      this.statusBarItem.command = 'mojo.sdk.select';
+      this.statusBarItem.show();
+      return;
+    }
+
+    const activeId = this.envManager.getActiveSDKId(workspaceFolder);
+    const pixiEnvName =
+      activeId !== undefined ? getPixiEnvironmentName(activeId) : undefined;
+    const version = sdk.parsedVersion.toString();
+    if (pixiEnvName !== undefined) {
+      this.statusBarItem.text = `$(flame) Mojo ${version} (${pixiEnvName})`;
+      this.statusBarItem.tooltip = `Mojo SDK from the Pixi environment '${pixiEnvName}'. Click to select another environment.`;
+      this.statusBarItem.command = 'mojo.sdk.selectPixiEnvironment';
+    } else {
+      this.statusBarItem.text = `$(flame) Mojo ${version}`;
+      this.statusBarItem.tooltip = `Mojo SDK (${activeId ?? sdk.kind}). Click to select another SDK.`;
+      this.statusBarItem.command = 'mojo.sdk.select';
+    }
+    this.statusBarItem.show();
+  }
+}
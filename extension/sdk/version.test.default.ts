@@ -0,0 +1,81 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import { hasCapability, SDKCapability, SDKVersion } from './version';
+
+suite('SDK version', () => {
+  test('should parse stable and nightly versions', () => {
+    const stable = SDKVersion.parse('Mojo 25.4.0 (b4d2f3a1)\n');
+    assert.strictEqual(stable.major, 25);
+    assert.strictEqual(stable.minor, 4);
+    assert.strictEqual(stable.patch, 0);
+    assert.strictEqual(stable.isNightly, false);
+    assert.strictEqual(stable.toString(), '25.4.0');
+
+    const nightly = SDKVersion.parse('25.5.0.dev2025071605');
+    assert.strictEqual(nightly.isNightly, true);
+    assert.strictEqual(nightly.nightlyDate, '20250716');
+    assert.strictEqual(nightly.nightlyBuild, 5);
+    assert.strictEqual(nightly.toString(), '25.5.0.dev20250716');
+
+    assert.strictEqual(SDKVersion.parse('0.0.0').isLocalBuild, true);
+    assert.strictEqual(SDKVersion.parse('unknown').isLocalBuild, true);
+  });
+
+  test('should order versions', () => {
+    const ordered = [
+      '24.6.0',
+      '25.4.0.dev2025050105',
+      '25.4.0.dev2025050201',
+      '25.4.0.dev2025050202',
+      '25.4.0',
+      '25.5.0',
+      '0.25.6.dev2025100105',
+      '0.25.6',
+      '0.26.0',
+      '0.0.0',
+    ].map((version) => SDKVersion.parse(version));
+
+    for (let i = 0; i < ordered.length - 1; i++) {
+      assert.ok(
+        ordered[i].compare(ordered[i + 1]) < 0,
+        `${ordered[i].raw} < ${ordered[i + 1].raw}`,
+      );
+      assert.ok(ordered[i + 1].isAtLeast(ordered[i]));
+    }
+    assert.strictEqual(
+      SDKVersion.parse('25.4').compare(SDKVersion.parse('25.4.0')),
+      0,
+    );
+  });
+
+  test('should check capabilities', () => {
+    const version = SDKVersion.parse('25.4.0');
+    assert.ok(hasCapability(SDKCapability.FileDebug, version));
+    assert.ok(hasCapability(SDKCapability.MojoFormat, version));
+    assert.ok(
+      !hasCapability(SDKCapability.JsonTestOutput, SDKVersion.parse('24.1.0')),
+    );
+    assert.ok(
+      hasCapability(SDKCapability.JsonTestOutput, SDKVersion.parse('0.0.0')),
+    );
+
+    const zeroBased = SDKVersion.parse('Mojo 0.25.6 (06be5aab)');
+    assert.strictEqual(zeroBased.isLocalBuild, false);
+    assert.strictEqual(zeroBased.toString(), '0.25.6');
+    for (const capability of Object.values(SDKCapability)) {
+      assert.ok(hasCapability(capability, zeroBased), capability);
+    }
+  });
+});
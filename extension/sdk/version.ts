@@ -0,0 +1,185 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { Optional } from '../types';
+
+/**
+ * Matches the version numbers found in `modular.cfg` files (e.g.
+ * `25.5.0.dev2025071605`) and in the output of `mojo --version` (e.g.
+ * `Mojo 25.4.0 (b4d2f3a1)`).
+ */
+const VERSION_REGEX = /(\d+)\.(\d+)(?:\.(\d+))?(?:[.-]?dev(\d{8})(\d*))?/;
+
+/**
+ * A parsed Mojo SDK version.
+ */
+export class SDKVersion {
+  constructor(
+    readonly major: number,
+    readonly minor: number,
+    readonly patch: number,
+    /**
+     * The date of a nightly build as `YYYYMMDD`, or undefined for a stable
+     * release.
+     */
+    readonly nightlyDate: Optional<string>,
+    /**
+     * The number of the nightly build within its day, or 0 if there is none.
+     */
+    readonly nightlyBuild: number,
+    /**
+     * The string this version was parsed from.
+     */
+    readonly raw: string,
+  ) {}
+
+  /**
+   * Parses the given version string. Strings that don't contain a version
+   * number are parsed as a local build.
+   */
+  static parse(raw: string): SDKVersion {
+    const match = VERSION_REGEX.exec(raw);
+    if (!match) {
+      return new SDKVersion(0, 0, 0, undefined, 0, raw);
+    }
+
+    return new SDKVersion(
+      parseInt(match[1]),
+      parseInt(match[2]),
+      parseInt(match[3] ?? '0'),
+      match[4],
+      match[5] ? parseInt(match[5]) : 0,
+      raw,
+    );
+  }
+
+  /**
+   * Whether this is a nightly build.
+   */
+  get isNightly(): boolean {
+    return this.nightlyDate !== undefined;
+  }
+
+  /**
+   * Whether this is a local or internal build, which reports `0.0.0` as its
+   * version. Such builds are considered newer than any release.
+   */
+  get isLocalBuild(): boolean {
+    return (
+      this.major === 0 &&
+      this.minor === 0 &&
+      this.patch === 0 &&
+      !this.isNightly
+    );
+  }
+
+  /**
+   * Whether this version follows the `0.x` scheme that replaced the
+   * year-based one (e.g. `0.25.6` after `25.6.0`). Such versions are
+   * considered newer than any year-based release.
+   */
+  get isZeroBased(): boolean {
+    return this.major === 0 && !this.isLocalBuild;
+  }
+
+  /**
+   * Compares this version with another one. Returns a negative number if this
+   * version is older, a positive number if it's newer, and 0 if both are
+   * equivalent. A nightly build is older than the stable release of the same
+   * version.
+   */
+  compare(other: SDKVersion): number {
+    if (this.isLocalBuild || other.isLocalBuild) {
+      return Number(this.isLocalBuild) - Number(other.isLocalBuild);
+    }
+    if (this.isZeroBased !== other.isZeroBased) {
+      return Number(this.isZeroBased) - Number(other.isZeroBased);
+    }
+
+    return (
+      this.major - other.major ||
+      this.minor - other.minor ||
+      this.patch - other.patch ||
+      compareNightlies(this, other)
+    );
+  }
+
+  /**
+   * Whether this version is the same or newer than the given one.
+   */
+  isAtLeast(other: SDKVersion | string): boolean {
+    return (
+      this.compare(
+        typeof other === 'string' ? SDKVersion.parse(other) : other,
+      ) >= 0
+    );
+  }
+
+  toString(): string {
+    if (this.isLocalBuild) {
+      return 'local build';
+    }
+
+    const version = `${this.major}.${this.minor}.${this.patch}`;
+    return this.isNightly ? `${version}.dev${this.nightlyDate}` : version;
+  }
+}
+
+function compareNightlies(lhs: SDKVersion, rhs: SDKVersion): number {
+  if (!lhs.isNightly || !rhs.isNightly) {
+    return Number(!lhs.isNightly) - Number(!rhs.isNightly);
+  }
+
+  return (
+    lhs.nightlyDate!.localeCompare(rhs.nightlyDate!) ||
+    lhs.nightlyBuild - rhs.nightlyBuild
+  );
+}
+
+/**
+ * A feature that only some SDKs provide.
+ */
+export enum SDKCapability {
+  /**
+   * Debugging a single Mojo file with the `mojoFile` launch option.
+   */
+  FileDebug = 'fileDebug',
+  /**
+   * Formatting code with the `mojo format` subcommand.
+   */
+  MojoFormat = 'mojoFormat',
+  /**
+   * Reporting test discovery and results with
+   * `mojo test --diagnostic-format json`.
+   */
+  JsonTestOutput = 'jsonTestOutput',
+}
+
+/**
+ * The first release providing each capability.
+ */
+const CAPABILITY_MIN_VERSIONS: Record<SDKCapability, string> = {
+  [SDKCapability.FileDebug]: '24.1.0',
+  [SDKCapability.MojoFormat]: '24.1.0',
+  [SDKCapability.JsonTestOutput]: '24.2.0',
+};
+
+/**
+ * Returns whether an SDK with the given version provides a capability.
+ */
+export function hasCapability(
+  capability: SDKCapability,
+  version: SDKVersion,
+): boolean {
+  return version.isAtLeast(CAPABILITY_MIN_VERSIONS[capability]);
+}
@@ -0,0 +1,219 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+//
+// Locates the tools of an SDK installed from the `modular` Python wheel by
+// asking the environment's interpreter where its packages and scripts live,
+// rather than assuming a specific site-packages layout.
+//
+//===----------------------------------------------------------------------===//
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { Logger } from '../logging';
+import { Optional } from '../types';
+import { directoryExists, fileExists } from '../utils/files';
+
+/**
+ * The name of the Python distribution and package providing the SDK.
+ */
+const MODULAR_DISTRIBUTION = 'modular';
+
+/**
+ * Prints, as JSON, the install paths of the interpreter running it and the
+ * location and files of the `modular` distribution.
+ */
+const QUERY_SCRIPT = `
+import json, os, sys, sysconfig
+result = {"paths": {}, "package": None, "files": None, "errors": []}
+for name in ("purelib", "platlib", "scripts"):
+    result["paths"][name] = sysconfig.get_path(name)
+try:
+    result["paths"]["userScripts"] = sysconfig.get_path("scripts", os.name + "_user")
+except Exception as e:
+    result["errors"].append("user scripts: %s" % e)
+try:
+    import importlib.util
+    spec = importlib.util.find_spec("${MODULAR_DISTRIBUTION}")
+    if spec is not None and spec.submodule_search_locations:
+        result["package"] = list(spec.submodule_search_locations)[0]
+except Exception as e:
+    result["errors"].append("package lookup: %s" % e)
+try:
+    from importlib import metadata
+    dist = metadata.distribution("${MODULAR_DISTRIBUTION}")
+    result["files"] = [str(dist.locate_file(f)) for f in (dist.files or [])]
+except Exception as e:
+    result["errors"].append("distribution lookup: %s" % e)
+print(json.dumps(result))
+`;
+
+/**
+ * What the interpreter of a Python environment reports about its layout and
+ * its `modular` distribution.
+ */
+export interface WheelEnvironmentInfo {
+  /**
+   * The `purelib`, `platlib`, `scripts` and `userScripts` install paths.
+   */
+  paths: Record<string, Optional<string>>;
+  /**
+   * The directory of the `modular` package, if it can be imported.
+   */
+  package: Optional<string>;
+  /**
+   * The files installed by the `modular` distribution, if it's installed.
+   */
+  files: Optional<string[]>;
+  /**
+   * The lookups that failed in the interpreter.
+   */
+  errors: string[];
+}
+
+/**
+ * The paths to the tools of a wheel SDK. A path is undefined when the tool
+ * couldn't be found.
+ */
+export interface WheelToolPaths {
+  packagePath: string;
+  mojoPath: Optional<string>;
+  rawMojoPath: Optional<string>;
+  lspPath: Optional<string>;
+  mblackPath: Optional<string>;
+  dapPath: Optional<string>;
+  lldbPath: Optional<string>;
+  lldbPluginPath: Optional<string>;
+  visualizersPath: Optional<string>;
+}
+
+/**
+ * Asks the given Python interpreter for its install paths and for the files of
+ * its `modular` distribution.
+ */
+export function queryWheelEnvironment(
+  pythonPath: string,
+): Promise<WheelEnvironmentInfo> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      pythonPath,
+      ['-c', QUERY_SCRIPT],
+      { timeout: 30000 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`${error.message}\n${stderr}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(stdout));
+        } catch (e) {
+          reject(new Error(`Invalid output from the interpreter: ${stdout}`));
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Locates the tools of the SDK described by the given environment info, or
+ * returns undefined if the `modular` package is not installed. Every failed
+ * lookup is logged along with the places that were searched.
+ */
+export async function locateWheelTools(
+  info: WheelEnvironmentInfo,
+  logger: Logger,
+): Promise<Optional<WheelToolPaths>> {
+  for (const error of info.errors) {
+    logger.debug(`Python environment query: ${error} failed.`);
+  }
+
+  const files = (info.files || []).map((file) => path.normalize(file));
+  const packagePath =
+    info.package ??
+    files
+      .find(
+        (file) =>
+          path.basename(file) === '__init__.py' &&
+          path.basename(path.dirname(file)) === MODULAR_DISTRIBUTION,
+      )
+      ?.replace(/[\\/]__init__\.py$/, '');
+  if (!packagePath) {
+    logger.info(
+      `The '${MODULAR_DISTRIBUTION}' package can't be imported and its distribution is not installed.`,
+    );
+    return undefined;
+  }
+  logger.debug(`Found the '${MODULAR_DISTRIBUTION}' package at ${packagePath}`);
+
+  const scriptDirs = [info.paths['scripts'], info.paths['userScripts']].filter(
+    (dir): dir is string => !!dir,
+  );
+
+  // Scripts are looked up in the distribution's file list first, which covers
+  // unusual layouts, and then in the script directories of the interpreter.
+  const findScript = async (name: string) => {
+    const candidates = [
+      ...files.filter(
+        (file) =>
+          path.basename(file) === name &&
+          !file.startsWith(packagePath + path.sep),
+      ),
+      ...scriptDirs.map((dir) => path.join(dir, name)),
+    ];
+    for (const candidate of candidates) {
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+    logger.error(
+      `Unable to find the '${name}' script of the '${MODULAR_DISTRIBUTION}' distribution. Searched: ${candidates.join(', ') || 'nothing'}.`,
+    );
+    return undefined;
+  };
+
+  const findPackageFile = async (
+    relativePath: string,
+    isDirectory: boolean = false,
+  ) => {
+    const target = path.join(packagePath, relativePath);
+    const exists = isDirectory
+      ? await directoryExists(target)
+      : await fileExists(target);
+    if (exists) {
+      return target;
+    }
+    logger.error(
+      `Unable to find '${relativePath}' in the '${MODULAR_DISTRIBUTION}' package at ${packagePath}.`,
+    );
+    return undefined;
+  };
+
+  const libExt = process.platform == 'darwin' ? 'dylib' : 'so';
+  return {
+    packagePath,
+    mojoPath: await findScript('mojo'),
+    // The debugger requires that we avoid using the wrapped `mojo` entrypoint
+    // for specific scenarios.
+    rawMojoPath: await findPackageFile(path.join('bin', 'mojo')),
+    lspPath: await findScript('mojo-lsp-server'),
+    mblackPath: await findScript('mblack'),
+    dapPath: await findScript('lldb-dap'),
+    lldbPath: await findScript('mojo-lldb'),
+    lldbPluginPath: await findPackageFile(
+      path.join('lib', `libMojoLLDB.${libExt}`),
+    ),
+    visualizersPath: await findPackageFile(
+      path.join('lib', 'lldb-visualizers'),
+      /*isDirectory=*/ true,
+    ),
+  };
+}
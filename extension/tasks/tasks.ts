@@ -0,0 +1,283 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DisposableContext } from '../utils/disposableContext';
+import * as config from '../utils/config';
+import { hasMojoFiles } from '../utils/files';
+import { getFormatterBackend } from '../formatter';
+import { Logger } from '../logging';
+import { Optional } from '../types';
+import { PythonEnvironmentManager, SDKFeature } from '../pyenv';
+
+/**
+ * The type of the tasks provided by this extension.
+ */
+const TASK_TYPE = 'mojo';
+
+/**
+ * The problem matcher of the compiler's `file:line:col: error: message` output,
+ * contributed in package.json.
+ */
+const PROBLEM_MATCHER = '$mojo';
+
+/**
+ * The definition of a `mojo` task, as written in tasks.json.
+ */
+export interface MojoTaskDefinition extends vscode.TaskDefinition {
+  command: 'run' | 'build' | 'test' | 'package' | 'format';
+  /**
+   * The file or directory the command applies to. Defaults to the current file
+   * for `run` and `build`, to its directory for `package`, and to the whole
+   * workspace folder for `test` and `format`.
+   */
+  file?: string;
+  /**
+   * Additional arguments passed to the tool, before the file.
+   */
+  args?: string[];
+  /**
+   * Arguments passed to the program by `run`.
+   */
+  programArgs?: string[];
+  /**
+   * The output path of `build` and `package`.
+   */
+  output?: string;
+  /**
+   * The working directory of the task. Defaults to the workspace folder.
+   */
+  cwd?: string;
+}
+
+/**
+ * Provides the `mojo` tasks, which run the tools of the active SDK with its
+ * environment.
+ */
+export class MojoTaskProvider
+  extends DisposableContext
+  implements vscode.TaskProvider
+{
+  private envManager: PythonEnvironmentManager;
+  private logger: Logger;
+
+  constructor(envManager: PythonEnvironmentManager, logger: Logger) {
+    super();
+    this.envManager = envManager;
+    this.logger = logger;
+    this.pushSubscription(vscode.tasks.registerTaskProvider(TASK_TYPE, this));
+  }
+
+  async provideTasks(_token: vscode.CancellationToken): Promise<vscode.Task[]> {
+    const definitions: [string, MojoTaskDefinition][] = [
+      [
+        'Run current file',
+        { type: TASK_TYPE, command: 'run', file: '${file}' },
+      ],
+      [
+        'Build current file',
+        { type: TASK_TYPE, command: 'build', file: '${file}' },
+      ],
+      [
+        'Test current file',
+        { type: TASK_TYPE, command: 'test', file: '${file}' },
+      ],
+      ['Test', { type: TASK_TYPE, command: 'test' }],
+      ['Format', { type: TASK_TYPE, command: 'format' }],
+    ];
+
+    const tasks: vscode.Task[] = [];
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      if (!(await hasMojoFiles(folder))) {
+        continue;
+      }
+
+      // Listing the tasks isn't an explicit request to use the SDK, so the
+      // problems it has are only reported when a task is run.
+      const sdk = await this.envManager.getActiveSDK(folder, /*silent=*/ true);
+      if (!sdk) {
+        this.logger.warn(
+          `Unable to provide the Mojo tasks of '${folder.name}': no SDK is available.`,
+        );
+        continue;
+      }
+      const hasFormatter =
+        (await sdk.getMissingTools(SDKFeature.Formatter)).length === 0;
+
+      const packageDefinitions = (await this.findPackageRoots(folder)).map(
+        (root): [string, MojoTaskDefinition] => {
+          const relativePath = path
+            .relative(folder.uri.fsPath, root)
+            .split(path.sep)
+            .join('/');
+          return [
+            `Package ${relativePath || folder.name}`,
+            {
+              type: TASK_TYPE,
+              command: 'package',
+              file: relativePath
+                ? `\${workspaceFolder}/${relativePath}`
+                : '${workspaceFolder}',
+            },
+          ];
+        },
+      );
+      for (const [name, definition] of [
+        ...definitions,
+        ...packageDefinitions,
+      ]) {
+        if (definition.command === 'format' && !hasFormatter) {
+          continue;
+        }
+        const task = await this.createTask(definition, folder, name);
+        if (task) {
+          tasks.push(task);
+        }
+      }
+    }
+    return tasks;
+  }
+
+  /**
+   * Returns the paths of the top-level packages of the given workspace folder,
+   * which are the directories containing an `__init__.mojo` file whose parent
+   * doesn't.
+   */
+  private async findPackageRoots(
+    folder: vscode.WorkspaceFolder,
+  ): Promise<string[]> {
+    const packageDirs = new Set(
+      (
+        await vscode.workspace.findFiles(
+          new vscode.RelativePattern(folder, '**/__init__.mojo'),
+        )
+      ).map((uri) => path.dirname(uri.fsPath)),
+    );
+    return Array.from(packageDirs)
+      .filter((dir) => !packageDirs.has(path.dirname(dir)))
+      .sort();
+  }
+
+  async resolveTask(
+    task: vscode.Task,
+    _token: vscode.CancellationToken,
+  ): Promise<Optional<vscode.Task>> {
+    const folder =
+      typeof task.scope === 'object' ? task.scope : this.getDefaultFolder();
+    return this.createTask(
+      task.definition as MojoTaskDefinition,
+      folder,
+      task.name,
+    );
+  }
+
+  /**
+   * Creates the task running the given definition with the SDK of the given
+   * workspace folder, or returns undefined if the SDK can't run it.
+   */
+  private async createTask(
+    definition: MojoTaskDefinition,
+    folder: Optional<vscode.WorkspaceFolder>,
+    name: string,
+  ): Promise<Optional<vscode.Task>> {
+    const sdk = await this.envManager.getActiveSDK(folder);
+    if (!sdk) {
+      this.logger.warn(
+        `Unable to provide the Mojo task '${name}': no SDK is available.`,
+      );
+      return undefined;
+    }
+
+    const file = definition.file;
+    const args = definition.args || [];
+    const withOutput = definition.output ? ['-o', definition.output] : [];
+    let command = sdk.mojoPath;
+    let commandArgs: string[];
+    switch (definition.command) {
+      case 'run':
+        commandArgs = [
+          'run',
+          ...args,
+          file || '${file}',
+          ...(definition.programArgs || []),
+        ];
+        break;
+      case 'build':
+        commandArgs = ['build', ...args, file || '${file}', ...withOutput];
+        break;
+      case 'package':
+        commandArgs = [
+          'package',
+          ...args,
+          file || '${fileDirname}',
+          ...withOutput,
+        ];
+        break;
+      case 'test':
+        commandArgs = ['test', ...args, ...(file ? [file] : [])];
+        break;
+      case 'format': {
+        if (!(await this.envManager.checkFeature(sdk, SDKFeature.Formatter))) {
+          return undefined;
+        }
+        const backend = await getFormatterBackend(sdk, this.logger);
+        command = backend.command;
+        commandArgs = backend.getArgs(
+          [...config.get<string[]>('formatting.args', folder, []), ...args],
+          file || folder?.uri.fsPath || '.',
+        );
+        break;
+      }
+      default:
+        this.logger.error(
+          `Unknown Mojo task command '${definition.command}' in task '${name}'.`,
+        );
+        return undefined;
+    }
+
+    const task = new vscode.Task(
+      definition,
+      folder ?? vscode.TaskScope.Workspace,
+      name,
+      TASK_TYPE,
+      new vscode.ProcessExecution(command, commandArgs, {
+        cwd: definition.cwd ?? folder?.uri.fsPath,
+        env: sdk.getProcessEnv(),
+      }),
+      PROBLEM_MATCHER,
+    );
+    if (definition.command === 'build' || definition.command === 'package') {
+      task.group = vscode.TaskGroup.Build;
+    } else if (definition.command === 'test') {
+      task.group = vscode.TaskGroup.Test;
+    }
+    return task;
+  }
+
+  /**
+   * Returns the workspace folder used by the tasks that aren't scoped to one,
+   * which is the one of the active editor, or the only one if there is a
+   * single workspace folder.
+   */
+  private getDefaultFolder(): Optional<vscode.WorkspaceFolder> {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder =
+      activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+    if (activeFolder) {
+      return activeFolder;
+    }
+    const folders = vscode.workspace.workspaceFolders;
+    return folders?.length === 1 ? folders[0] : undefined;
+  }
+}
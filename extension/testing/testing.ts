@@ -18,7 +18,10 @@ import { DisposableContext } from '../utils/disposableContext';
 import * as path from 'path';
 import { Logger } from '../logging';
 import { Optional } from '../types';
-import { PythonEnvironmentManager, SDK } from '../pyenv';
+import { PythonEnvironmentManager, SDK, SDKFeature } from '../pyenv';
+import { SDKCapability } from '../sdk/version';
+import { MojoDebugConfiguration } from '../debug/debug';
+import { DEBUG_TYPE } from '../debug/constants';
 
 /**
  * An interface defining a source range for a mojo test.
@@ -62,6 +65,8 @@ export class MojoTestManager extends DisposableContext {
   private envManager: PythonEnvironmentManager;
   private controller: vscode.TestController;
   private logger: Logger;
+  private runProfile: vscode.TestRunProfile;
+  private debugProfile: vscode.TestRunProfile;
 
   // A tag used to mark doc tests.
   private docTestTag = new vscode.TestTag('docTest');
@@ -80,13 +85,31 @@ export class MojoTestManager extends DisposableContext {
     this.pushSubscription(this.controller);
 
     // Create the different test profiles.
-    this.controller.createRunProfile(
+    this.runProfile = this.controller.createRunProfile(
       'Run',
       vscode.TestRunProfileKind.Run,
       (request, token) => {
         this.runHandler(/*shouldDebug=*/ false, request, token);
       },
     );
+    this.debugProfile = this.controller.createRunProfile(
+      'Debug',
+      vscode.TestRunProfileKind.Debug,
+      (request, _token) => {
+        this.debugHandler(request);
+      },
+    );
+
+    for (const [cmd, shouldDebug] of [
+      ['mojo.test.runFunction', false],
+      ['mojo.test.debugFunction', true],
+    ] as const) {
+      this.pushSubscription(
+        vscode.commands.registerCommand(cmd, (uri: vscode.Uri, name: string) =>
+          this.runTestFunction(uri, name, shouldDebug),
+        ),
+      );
+    }
   }
 
   /**
@@ -251,6 +274,103 @@ export class MojoTestManager extends DisposableContext {
     run.end();
   }
 
+  /**
+   * Handle the given debug request, by debugging the included tests, or all
+   * known tests, through `mojo test`.
+   */
+  async debugHandler(request: vscode.TestRunRequest) {
+    const tests: vscode.TestItem[] = [];
+    if (request.include) {
+      tests.push(...request.include);
+    } else {
+      this.controller.items.forEach((test) => tests.push(test));
+    }
+
+    for (const test of tests) {
+      if (request.exclude?.includes(test)) {
+        continue;
+      }
+      const debugConfig: MojoDebugConfiguration = {
+        type: DEBUG_TYPE,
+        name: `Debug ${test.label}`,
+        request: 'launch',
+        mojoTest: test.id,
+      };
+      await vscode.debug.startDebugging(
+        test.uri && vscode.workspace.getWorkspaceFolder(test.uri),
+        debugConfig as vscode.DebugConfiguration,
+      );
+    }
+  }
+
+  /**
+   * Run or debug the test function with the given name in the given file,
+   * discovering the tests of the file first if necessary. Resolves to whether
+   * the test was found.
+   */
+  async runTestFunction(
+    uri: vscode.Uri,
+    name: string,
+    shouldDebug: boolean,
+  ): Promise<boolean> {
+    let test = this.findTestFunction(uri, name);
+    if (!test) {
+      await this.discoverTestsInDocument(
+        await vscode.workspace.openTextDocument(uri),
+      );
+      test = this.findTestFunction(uri, name);
+    }
+    if (!test) {
+      vscode.window.showErrorMessage(
+        `Couldn't find the test '${name}'. Save the file to discover its tests.`,
+      );
+      return false;
+    }
+
+    const request = new vscode.TestRunRequest(
+      [test],
+      undefined,
+      shouldDebug ? this.debugProfile : this.runProfile,
+    );
+    if (shouldDebug) {
+      await this.debugHandler(request);
+      return true;
+    }
+    const tokenSource = new vscode.CancellationTokenSource();
+    try {
+      await this.runHandler(/*shouldDebug=*/ false, request, tokenSource.token);
+    } finally {
+      tokenSource.dispose();
+    }
+    return true;
+  }
+
+  /**
+   * Returns the unit test of the function with the given name in the given
+   * file, if it was discovered.
+   */
+  private findTestFunction(
+    uri: vscode.Uri,
+    name: string,
+  ): Optional<vscode.TestItem> {
+    const queue: vscode.TestItem[] = [];
+    this.controller.items
+      .get(uri.fsPath)
+      ?.children.forEach((test) => queue.push(test));
+    while (queue.length > 0) {
+      const test = queue.pop()!;
+      // Test labels include the parentheses of the call, e.g. `test_foo()`.
+      if (
+        test.tags.includes(this.unitTestTag) &&
+        test.label.replace(/\(.*$/, '') === name
+      ) {
+        return test;
+      }
+      test.children.forEach((child) => queue.push(child));
+    }
+    return undefined;
+  }
+
   /**
    * Execute the given test, updating its status (and the status of its
    * dependencies) as we go.
@@ -274,15 +394,29 @@ export class MojoTestManager extends DisposableContext {
     };
 
     // Grab the sdk for the execution context.
-    const sdk = await this.envManager.getActiveSDK();
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(test.uri!);
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
     if (!sdk) {
       this.controller.items.delete(test.uri!.fsPath);
       return;
     }
 
+    if (!(await this.envManager.checkFeature(sdk, SDKFeature.Testing))) {
+      markAllTestsErrored(
+        `The Mojo SDK ${sdk.parsedVersion} doesn't provide the tools required to run tests.`,
+      );
+      return;
+    }
+
+    if (!sdk.supports(SDKCapability.JsonTestOutput)) {
+      markAllTestsErrored(
+        `Mojo ${sdk.parsedVersion} doesn't support running tests from the editor.`,
+      );
+      return;
+    }
+
     // Invoke the `test` subcommand of the mojo tool to discover tests in the
     // document.
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(test.uri!);
     const result = await this.runMojoTestCommand<MojoTestExecutionResult>(
       sdk,
       test.id,
@@ -398,16 +532,29 @@ export class MojoTestManager extends DisposableContext {
 
     // Invoke the mojo tool to discover tests in the document.
     // We use 'hideRepeatedErrors' because this action is automated.
-    const sdk = await this.envManager.getActiveSDK();
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
     if (!sdk) {
       this.controller.items.delete(document.uri.fsPath);
       this.logger.debug(`No SDK present, clearing tests for ${document.uri}`);
       return;
     }
 
+    if (!(await this.envManager.checkFeature(sdk, SDKFeature.Testing))) {
+      this.controller.items.delete(document.uri.fsPath);
+      return;
+    }
+
+    if (!sdk.supports(SDKCapability.JsonTestOutput)) {
+      this.controller.items.delete(document.uri.fsPath);
+      this.logger.debug(
+        `Mojo ${sdk.parsedVersion} doesn't support JSON test output, clearing tests for ${document.uri}`,
+      );
+      return;
+    }
+
     // Invoke the `test` subcommand of the mojo tool to discover tests in the
     // document.
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
     const mojoTestSuite = await this.runMojoTestCommand<MojoTest>(
       sdk,
       document.uri.fsPath,
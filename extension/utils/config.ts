@@ -48,12 +48,28 @@ export function get<T>(
 }
 
 /**
- *  Sets the config value `mojo.<key>`.
+ *  Sets the config value `mojo.<key>`, with an optional workspace folder.
  */
 export function update<T>(
   key: string,
   value: T,
   target?: vscode.ConfigurationTarget,
+  workspaceFolder?: Optional<vscode.WorkspaceFolder>,
 ) {
-  return vscode.workspace.getConfiguration('mojo').update(key, value, target);
+  return vscode.workspace
+    .getConfiguration('mojo', workspaceFolder)
+    .update(key, value, target);
+}
+
+/**
+ *  Gets the config value `mojo.<key>` as set at each configuration level,
+ * with an optional workspace folder.
+ */
+export function inspect<T>(
+  key: string,
+  workspaceFolder: Optional<vscode.WorkspaceFolder>,
+) {
+  return vscode.workspace
+    .getConfiguration('mojo', workspaceFolder)
+    .inspect<T>(key);
 }
@@ -21,7 +21,10 @@ import { Optional } from '../types';
 /**
  *  Prompt the user to see if we should restart the server.
  */
-async function promptRestart(settingName: string, promptMessage: string) {
+export async function promptRestart(
+  settingName: string,
+  promptMessage: string,
+) {
   switch (config.get<string>(settingName, /*workspaceFolder=*/ undefined)) {
     case 'restart':
       vscode.commands.executeCommand('mojo.extension.restart');
@@ -0,0 +1,96 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { Logger, LogLevel } from '../logging';
+import { parseJSONDiagnostics, parseMojoDiagnostics } from './diagnostics';
+
+suite('Diagnostics', () => {
+  const cwd = path.resolve('/project');
+
+  function createLogger(): [string[], Logger] {
+    const errors: string[] = [];
+    const logger = new Logger(LogLevel.Error);
+    logger.main.logCallback = (_level, message) => errors.push(message);
+    return [errors, logger];
+  }
+
+  test('should parse JSON diagnostics', () => {
+    // Diagnostics as printed by `mojo build --diagnostic-format json`, along
+    // with the text ones the driver still prints.
+    const output = [
+      `{"severity":"error","message":"use of unknown declaration 'x'","location":{"file":"main.mojo","line":3,"column":11}}`,
+      `{"severity":"note","message":"function declared here","location":{"file":"main.mojo","line":1,"column":5}}`,
+      `${path.join(cwd, 'main.mojo')}:4:5: warning: assignment to 'y' was never used; assign to '_' instead?`,
+      'mojo: error: failed to parse the provided Mojo source module',
+    ].join('\n');
+    const [errors, logger] = createLogger();
+
+    assert.deepStrictEqual(parseJSONDiagnostics(output, cwd, logger), [
+      {
+        file: path.join(cwd, 'main.mojo'),
+        line: 3,
+        column: 11,
+        severity: 'error',
+        message: "use of unknown declaration 'x'",
+      },
+      {
+        file: path.join(cwd, 'main.mojo'),
+        line: 1,
+        column: 5,
+        severity: 'note',
+        message: 'function declared here',
+      },
+      {
+        file: path.join(cwd, 'main.mojo'),
+        line: 4,
+        column: 5,
+        severity: 'warning',
+        message: "assignment to 'y' was never used; assign to '_' instead?",
+      },
+    ]);
+    assert.deepStrictEqual(errors, []);
+  });
+
+  test('should reject unexpected JSON diagnostics', () => {
+    const output = [
+      `{"severity":"fatal","message":"oops","location":{"file":"main.mojo","line":3,"column":5}}`,
+      `{"severity":"error","message":"oops","location":{"file":"main.mojo","line":0,"column":5}}`,
+      `{"severity":"error","message":"oops"`,
+    ].join('\n');
+    const [errors, logger] = createLogger();
+
+    assert.deepStrictEqual(parseJSONDiagnostics(output, cwd, logger), []);
+    assert.strictEqual(errors.length, 3);
+  });
+
+  test('should parse text diagnostics', () => {
+    const file = path.join(cwd, 'lib.mojo');
+    const output = [
+      `${file}:10:1: warning: 'y' was never used`,
+      '    var y = 1',
+      '    ^',
+      `${file}:2:4: note: declared here`,
+      '{"severity":"error"}',
+    ].join('\n');
+
+    assert.deepStrictEqual(
+      parseMojoDiagnostics(output, cwd).map((d) => [d.line, d.severity]),
+      [
+        [10, 'warning'],
+        [2, 'note'],
+      ],
+    );
+  });
+});
@@ -0,0 +1,217 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Logger } from '../logging';
+import { Optional } from '../types';
+
+/**
+ * A diagnostic reported by the Mojo compiler.
+ */
+export interface MojoDiagnostic {
+  /**
+   * The absolute path of the file the diagnostic applies to.
+   */
+  file: string;
+  /**
+   * The 1-based line of the diagnostic.
+   */
+  line: number;
+  /**
+   * The 1-based column of the diagnostic.
+   */
+  column: number;
+  severity: 'error' | 'warning' | 'note';
+  message: string;
+}
+
+/**
+ * A diagnostic printed by the compiler with `--diagnostic-format json`, one per
+ * line.
+ */
+interface MojoJSONDiagnostic {
+  severity: 'error' | 'warning' | 'note' | 'remark';
+  message: string;
+  location: {
+    /**
+     * The path of the file, relative to the working directory of the compiler
+     * or absolute.
+     */
+    file: string;
+    /**
+     * The 1-based line.
+     */
+    line: number;
+    /**
+     * The 1-based column.
+     */
+    column: number;
+  };
+}
+
+/**
+ * Matches the diagnostics printed by the compiler in its text format, e.g.
+ * `/path/to/file.mojo:3:5: error: use of unknown declaration 'x'`.
+ */
+const TEXT_DIAGNOSTIC_REGEX =
+  /^(.+?):(\d+):(\d+):\s+(error|warning|note|remark):\s+(.*)$/;
+
+function toSeverity(
+  severity: MojoJSONDiagnostic['severity'],
+): MojoDiagnostic['severity'] {
+  return severity === 'remark' ? 'note' : severity;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isMojoJSONDiagnostic(value: any): value is MojoJSONDiagnostic {
+  return (
+    ['error', 'warning', 'note', 'remark'].includes(value?.severity) &&
+    typeof value.message === 'string' &&
+    typeof value.location?.file === 'string' &&
+    value.location.file.length > 0 &&
+    isPositiveInteger(value.location.line) &&
+    isPositiveInteger(value.location.column)
+  );
+}
+
+/**
+ * Parses a line of compiler output printed in the text format, resolving its
+ * path against the given directory.
+ */
+function parseTextDiagnostic(
+  line: string,
+  cwd: string,
+): Optional<MojoDiagnostic> {
+  const match = TEXT_DIAGNOSTIC_REGEX.exec(line);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    file: path.resolve(cwd, match[1]),
+    line: parseInt(match[2]),
+    column: parseInt(match[3]),
+    severity: toSeverity(match[4] as MojoJSONDiagnostic['severity']),
+    message: match[5],
+  };
+}
+
+/**
+ * Parses the diagnostics printed by the compiler in its text format; other
+ * lines are ignored. Relative paths are resolved against the given directory.
+ */
+export function parseMojoDiagnostics(
+  output: string,
+  cwd: string,
+): MojoDiagnostic[] {
+  return output
+    .split(/\r?\n/)
+    .map((line) => parseTextDiagnostic(line.trim(), cwd))
+    .filter((diagnostic): diagnostic is MojoDiagnostic => !!diagnostic);
+}
+
+/**
+ * Parses the output of a compiler invoked with `--diagnostic-format json`.
+ * Diagnostics are printed as JSON objects, one per line, but the driver still
+ * prints its own errors in the text format, which are parsed as well. JSON
+ * that isn't a diagnostic is rejected and logged. Relative paths are resolved
+ * against the given directory.
+ */
+export function parseJSONDiagnostics(
+  output: string,
+  cwd: string,
+  logger: Logger,
+): MojoDiagnostic[] {
+  const diagnostics: MojoDiagnostic[] = [];
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line.startsWith('{')) {
+      const diagnostic = parseTextDiagnostic(line, cwd);
+      if (diagnostic) {
+        diagnostics.push(diagnostic);
+      }
+      continue;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (e) {
+      // The stack of a JSON syntax error is of no use, so only its message is
+      // logged.
+      logger.error(`Unable to parse the compiler diagnostic '${line}': ${e}`);
+      continue;
+    }
+    if (!isMojoJSONDiagnostic(value)) {
+      logger.error(`Ignoring the unexpected compiler diagnostic '${line}'.`);
+      continue;
+    }
+
+    diagnostics.push({
+      file: path.resolve(cwd, value.location.file),
+      line: value.location.line,
+      column: value.location.column,
+      severity: toSeverity(value.severity),
+      message: value.message,
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Converts the given compiler diagnostics to VS Code diagnostics, grouped by
+ * file. Notes are attached to the error or warning preceding them.
+ */
+export function toVSCodeDiagnostics(
+  diagnostics: MojoDiagnostic[],
+): Map<string, vscode.Diagnostic[]> {
+  const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+  let previous: Optional<vscode.Diagnostic>;
+  for (const diagnostic of diagnostics) {
+    const position = new vscode.Position(
+      diagnostic.line - 1,
+      diagnostic.column - 1,
+    );
+    const range = new vscode.Range(position, position);
+    if (diagnostic.severity === 'note' && previous) {
+      previous.relatedInformation = [
+        ...(previous.relatedInformation || []),
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(vscode.Uri.file(diagnostic.file), range),
+          diagnostic.message,
+        ),
+      ];
+      continue;
+    }
+
+    const vscodeDiagnostic = new vscode.Diagnostic(
+      range,
+      diagnostic.message,
+      diagnostic.severity === 'error'
+        ? vscode.DiagnosticSeverity.Error
+        : diagnostic.severity === 'warning'
+          ? vscode.DiagnosticSeverity.Warning
+          : vscode.DiagnosticSeverity.Information,
+    );
+    vscodeDiagnostic.source = 'mojo';
+    const fileDiagnostics = diagnosticsByFile.get(diagnostic.file) ?? [];
+    fileDiagnostics.push(vscodeDiagnostic);
+    diagnosticsByFile.set(diagnostic.file, fileDiagnostics);
+    previous = vscodeDiagnostic;
+  }
+  return diagnosticsByFile;
+}
@@ -0,0 +1,26 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { escapeGlob } from './files';
+
+suite('Files', () => {
+  test('should escape glob characters', () => {
+    assert.strictEqual(
+      escapeGlob(['src', 'a[1]{b,c}*?.mojo'].join(path.sep)),
+      'src/a[[]1[]][{]b,c[}][*][?].mojo',
+    );
+    assert.strictEqual(escapeGlob('main.mojo'), 'main.mojo');
+  });
+});
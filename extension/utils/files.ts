@@ -47,6 +47,20 @@ export function isMojoFile(uri: Optional<vscode.Uri>): boolean {
   );
 }
 
+/**
+ * Returns whether the given workspace folder contains any Mojo source file.
+ */
+export async function hasMojoFiles(
+  folder: vscode.WorkspaceFolder,
+): Promise<boolean> {
+  const files = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, '**/*.{mojo,🔥}'),
+    /*exclude=*/ undefined,
+    /*maxResults=*/ 1,
+  );
+  return files.length > 0;
+}
+
 /**
  * @returns All the currently open Mojo files as tuple, where the first element
  *     is the active document if it's a mojo file, and the second element are
@@ -75,6 +89,17 @@ export function getAllOpenMojoFiles(): [
   return [activeFile, otherOpenFiles];
 }
 
+/**
+ * Returns a glob matching the given path only, with forward slashes as
+ * separators and each glob character wrapped in brackets.
+ */
+export function escapeGlob(fsPath: string): string {
+  return fsPath
+    .split(path.sep)
+    .join('/')
+    .replace(/[[\]{}*?]/g, '[$&]');
+}
+
 export async function directoryExists(path: string): Promise<boolean> {
   try {
     const stat = await vscode.workspace.fs.stat(vscode.Uri.file(path));
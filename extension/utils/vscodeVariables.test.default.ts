@@ -0,0 +1,34 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import { substituteVariables } from './vscodeVariables';
+
+suite('VS Code variables', () => {
+  test('should substitute environment variables', () => {
+    process.env['MOJO_TEST_VAR'] = 'a$&b';
+    process.env['MOJO_TEST_VAR(1)'] = 'c';
+    try {
+      assert.strictEqual(
+        substituteVariables(
+          '${env:MOJO_TEST_VAR}/${env:MOJO_TEST_VAR(1)}/${env:MOJO_TEST_UNSET}',
+          /*workspaceFolder=*/ undefined,
+        ),
+        'a$&b/c/',
+      );
+    } finally {
+      delete process.env['MOJO_TEST_VAR'];
+      delete process.env['MOJO_TEST_VAR(1)'];
+    }
+  });
+});
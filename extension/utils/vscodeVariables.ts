@@ -38,17 +38,10 @@ export function substituteVariables(
   );
   text = text.replace(/\${userHome}/g, os.homedir());
   text = text.replace(/\${pathSeparator}/g, path.sep);
-
-  while (true) {
-    const match = text.match(/\${env:([^}]*)}/);
-
-    if (!match) {
-      break;
-    }
-    text = text.replace(
-      new RegExp(`\\\${env:${match[1]}}`, 'g'),
-      process.env[match[1]] || '',
-    );
-  }
+  // Variable names and values are used as is, without being interpreted as
+  // patterns or replacement strings.
+  text = text.replace(/\${env:([^}]*)}/g, (_match, name: string) => {
+    return process.env[name] || '';
+  });
   return text;
 }